@@ -0,0 +1,70 @@
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { notifiersConfigSchema } from "./notifiers/config.js";
+import { swapRuleSchema } from "./swap.js";
+import { watchlistSchema } from "./watchlist.js";
+
+export const accountSchema = z.object({
+  // Used in logs and as the name of the account's data directory
+  id: z.string().regex(/^[\w-]+$/, "Account ids may only contain letters, digits, _ and -"),
+  // Leave these out to use the encrypted vault (`pnpm vault add <id>`)
+  username: z.string().optional(),
+  password: z.string().optional(),
+  // Each falls back to the shared watchlist.json / notifiers / swaps.json when omitted
+  watchlist: watchlistSchema.optional(),
+  notifiers: notifiersConfigSchema.optional(),
+  swaps: z.array(swapRuleSchema).optional(),
+});
+
+export type Account = z.infer<typeof accountSchema> & {
+  // Where this account's snapshots, history, session etc. live
+  dataDir: string;
+};
+
+const DEFAULT_ACCOUNT_ID = "default";
+
+/**
+ * Load the accounts to monitor from ACCOUNTS_FILE (default: accounts.json).
+ * Without the file, a single "default" account is used, with USERNAME /
+ * PASSWORD (or the vault) and DATA_DIR directly, exactly as before accounts
+ * existed.
+ * @returns The accounts, each with its own data directory
+ */
+export async function loadAccounts(): Promise<Account[]> {
+  const baseDataDir = process.env.DATA_DIR || "data";
+  const file = process.env.ACCOUNTS_FILE || "accounts.json";
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw new Error(`Failed to read accounts from ${file}: ${error.message}`);
+    }
+    return [
+      {
+        id: DEFAULT_ACCOUNT_ID,
+        username: process.env.USERNAME || undefined,
+        password: process.env.PASSWORD || undefined,
+        dataDir: baseDataDir,
+      },
+    ];
+  }
+
+  const accounts = z.array(accountSchema).min(1).parse(raw);
+  const ids = new Set<string>();
+  for (const account of accounts) {
+    if (ids.has(account.id)) throw new Error(`Duplicate account id "${account.id}" in ${file}`);
+    ids.add(account.id);
+  }
+  return accounts.map((account) => ({ ...account, dataDir: path.join(baseDataDir, account.id) }));
+}
+
+/**
+ * How many accounts may run a check at the same time (default: 1, i.e. one
+ * after the other)
+ */
+export function getAccountConcurrency() {
+  return Math.max(1, Number(process.env.MAX_CONCURRENT_ACCOUNTS) || 1);
+}
@@ -0,0 +1,208 @@
+import { ObserveResult, Page } from "@browserbasehq/stagehand";
+import fs from "fs/promises";
+import chalk from "chalk";
+import { announce, clearOverlays, drawObserveOverlay, formatDuration, getDataPath, writeFileAtomic } from "./utils.js";
+
+/**
+ * A cached `observe` result: the Playwright action the LLM picked for an
+ * instruction on a given page, replayed without asking the LLM again
+ */
+export type CacheEntry = {
+  instruction: string;
+  origin: string;
+  path: string;
+  action: ObserveResult;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  hits: number;
+};
+
+type CacheFile = Record<string, CacheEntry>;
+
+const CACHE_FILE = "action-cache.json";
+
+const DEFAULT_TTL_HOURS = 7 * 24;
+
+function getTtlMs() {
+  return (Number(process.env.ACTION_CACHE_TTL_HOURS) || DEFAULT_TTL_HOURS) * 3_600_000;
+}
+
+// The same instruction can mean different elements on different pages, so the
+// page is part of the key. Query strings are left out: ASP.NET pages add
+// per-session tokens there.
+function cacheKey(instruction: string, url: URL) {
+  return `${url.origin}${url.pathname} :: ${instruction}`;
+}
+
+async function readCacheFile(): Promise<CacheFile> {
+  try {
+    return JSON.parse(await fs.readFile(await getDataPath(CACHE_FILE), "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+// Serialize read-modify-write cycles within this process (several accounts
+// can act at once); the atomic rename covers crashes and other processes
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function updateCacheFile(update: (cache: CacheFile) => void): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    const cache = await readCacheFile();
+    update(cache);
+    await writeFileAtomic(await getDataPath(CACHE_FILE), JSON.stringify(cache, null, 2));
+  });
+  pendingWrite = write.catch(() => {});
+  return write;
+}
+
+function isExpired(entry: CacheEntry, now = new Date()) {
+  return new Date(entry.expiresAt) <= now;
+}
+
+/**
+ * Check that a cached action's element is still on the page before replaying it
+ */
+async function resolves(page: Page, action: ObserveResult) {
+  try {
+    return (await page.locator(action.selector).count()) > 0;
+  } catch {
+    // An unparsable selector is as good as a missing one
+    return false;
+  }
+}
+
+async function observeAndCache(page: Page, instruction: string, key: string, url: URL): Promise<ObserveResult> {
+  const [action] = await page.observe(instruction);
+  if (!action) throw new Error(`Nothing on the page matches "${instruction}"`);
+
+  // Show what was picked when a human is watching the browser
+  await drawObserveOverlay(page, [action]);
+  await clearOverlays(page);
+
+  const now = new Date();
+  await updateCacheFile((cache) => {
+    cache[key] = {
+      instruction,
+      origin: url.origin,
+      path: url.pathname,
+      action,
+      createdAt: now.toISOString(),
+      lastUsedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + getTtlMs()).toISOString(),
+      hits: 0,
+    };
+  });
+  return action;
+}
+
+/**
+ * Act on an instruction, replaying the action cached for this page when there
+ * is one. A cached action is only used if it hasn't expired and its selector
+ * still resolves; otherwise (or if replaying it fails) the page is observed
+ * again and the entry is replaced.
+ * @param page - The page to act on
+ * @param instruction - What to do, in natural language
+ */
+export async function actWithCache(page: Page, instruction: string): Promise<void> {
+  const url = new URL(page.url());
+  const key = cacheKey(instruction, url);
+  const cached = (await readCacheFile())[key];
+
+  if (cached && !isExpired(cached) && (await resolves(page, cached.action))) {
+    try {
+      console.log(chalk.blue("Using cached action for:"), instruction);
+      await page.act(cached.action);
+      await updateCacheFile((cache) => {
+        if (!cache[key]) return;
+        cache[key].hits++;
+        cache[key].lastUsedAt = new Date().toISOString();
+      });
+      return;
+    } catch (error: any) {
+      console.log(chalk.yellow(`Cached action failed (${error.message}), observing the page again:`), instruction);
+    }
+  } else if (cached) {
+    console.log(
+      chalk.yellow(`Cached action ${isExpired(cached) ? "expired" : "no longer matches the page"}, observing again:`),
+      instruction,
+    );
+  }
+
+  const action = await observeAndCache(page, instruction, key, url);
+  await page.act(action);
+}
+
+/**
+ * Remove cache entries
+ * @param filter - Which entries to remove; all of them by default
+ * @returns How many entries were removed
+ */
+export async function clearActionCache(filter: (entry: CacheEntry) => boolean = () => true): Promise<number> {
+  let removed = 0;
+  await updateCacheFile((cache) => {
+    for (const [key, entry] of Object.entries(cache)) {
+      if (filter(entry)) {
+        delete cache[key];
+        removed++;
+      }
+    }
+  });
+  return removed;
+}
+
+const CACHE_USAGE =
+  `Usage: pnpm cache <command>\n\n` +
+  `  list                  Show every cached action\n` +
+  `  clear                 Remove every cached action\n` +
+  `  clear --expired       Remove only expired actions\n` +
+  `  clear <TEXT>          Remove actions whose instruction or page contains TEXT\n\n` +
+  `  --account <ID>        Use another account's cache (see accounts.json)`;
+
+/**
+ * Entry point for `pnpm cache ...`
+ * @param args - The CLI arguments after "cache"
+ */
+export async function runCacheCommand(args: string[]) {
+  const [command, filter] = args;
+
+  switch (command) {
+    case "list": {
+      const entries = Object.values(await readCacheFile());
+      const now = new Date();
+      announce(
+        entries.length
+          ? entries
+              .map(
+                (entry) =>
+                  `${chalk.bold(entry.instruction)}\n` +
+                  `  ${entry.origin}${entry.path} → ${chalk.cyan(entry.action.selector)}\n` +
+                  `  ${entry.hits} hit(s), ` +
+                  (isExpired(entry, now)
+                    ? chalk.red("expired")
+                    : `expires in ${formatDuration(new Date(entry.expiresAt).getTime() - now.getTime())}`),
+              )
+              .join("\n\n")
+          : "The action cache is empty",
+        "Action Cache",
+      );
+      return;
+    }
+
+    case "clear": {
+      const removed = await clearActionCache(
+        filter === "--expired"
+          ? (entry) => isExpired(entry)
+          : filter
+            ? (entry) => `${entry.origin}${entry.path} ${entry.instruction}`.toLowerCase().includes(filter.toLowerCase())
+            : undefined,
+      );
+      announce(`Removed ${removed} cached action(s)`, "Action Cache");
+      return;
+    }
+  }
+
+  console.log(CACHE_USAGE);
+  process.exitCode = 1;
+}
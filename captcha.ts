@@ -0,0 +1,340 @@
+import { LLMResponse, Page, Stagehand } from "@browserbasehq/stagehand";
+import fs from "fs/promises";
+import { Jimp } from "jimp";
+import OpenAI from "openai";
+import { createWorker, PSM, Worker } from "tesseract.js";
+import { z } from "zod";
+import { CustomOpenAIClient } from "./llm_clients/customOpenAI_client.js";
+import { recordLlmUsage } from "./metrics.js";
+
+const ocrSolverSchema = z.object({
+  type: z.literal("ocr"),
+  minConfidence: z.number().min(0).max(1).optional(),
+  samples: z.number().int().positive().default(1),
+  preprocess: z
+    .object({
+      scale: z.number().positive().default(2),
+      // Pixels darker than this become black, the rest white (0-255)
+      threshold: z.number().int().min(0).max(255).default(140),
+    })
+    .default({}),
+});
+
+const llmSolverSchema = z.object({
+  type: z.literal("llm"),
+  model: z.string().default("gpt-4o"),
+  minConfidence: z.number().min(0).max(1).optional(),
+  samples: z.number().int().positive().default(1),
+  // The LLM doesn't report a confidence, so a single answer gets this one
+  confidence: z.number().min(0).max(1).default(0.9),
+});
+
+export const solverConfigSchema = z.discriminatedUnion("type", [ocrSolverSchema, llmSolverSchema]);
+
+export const captchaConfigSchema = z.object({
+  // Tried in order; the first answer that clears its threshold is used
+  solvers: z.array(solverConfigSchema).default([{ type: "ocr" }, { type: "llm" }]),
+  minConfidence: z.number().min(0).max(1).default(0.7),
+  // Answers that don't look like a CAPTCHA are thrown away
+  pattern: z.string().default("^[A-Za-z0-9]{4,8}$"),
+  // How many fresh CAPTCHA images to try before asking a human
+  refreshAttempts: z.number().int().min(0).default(2),
+});
+
+export type SolverConfig = z.infer<typeof solverConfigSchema>;
+export type CaptchaConfig = z.infer<typeof captchaConfigSchema>;
+
+export type CaptchaGuess = {
+  solver: string;
+  text: string;
+  confidence: number; // 0-1
+  latencyMs: number;
+  usage?: { promptTokens: number; completionTokens: number };
+};
+
+export interface CaptchaSolver {
+  readonly name: string;
+  /**
+   * Read the CAPTCHA
+   * @param image - A PNG screenshot of the CAPTCHA
+   * @param sample - Which sample this is when voting, so solvers can vary
+   */
+  solve(image: Buffer, sample: number): Promise<CaptchaGuess>;
+}
+
+/**
+ * Load the solver chain from CAPTCHA_FILE (default: captcha.json). Without a
+ * file, CAPTCHA_SOLVERS (e.g. "llm,ocr"), CAPTCHA_MIN_CONFIDENCE and
+ * CAPTCHA_SAMPLES tune the default chain.
+ * @returns The validated CAPTCHA config
+ */
+export async function loadCaptchaConfig(): Promise<CaptchaConfig> {
+  const file = process.env.CAPTCHA_FILE || "captcha.json";
+  let raw: Record<string, unknown> = {};
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw new Error(`Failed to read CAPTCHA config from ${file}: ${error.message}`);
+    }
+    const samples = Number(process.env.CAPTCHA_SAMPLES) || undefined;
+    if (process.env.CAPTCHA_SOLVERS) {
+      raw.solvers = process.env.CAPTCHA_SOLVERS.split(",").map((type) => ({ type: type.trim(), samples }));
+    } else if (samples) {
+      raw.solvers = [{ type: "ocr" }, { type: "llm", samples }];
+    }
+    if (process.env.CAPTCHA_MIN_CONFIDENCE) {
+      raw.minConfidence = Number(process.env.CAPTCHA_MIN_CONFIDENCE);
+    }
+  }
+  return captchaConfigSchema.parse(raw);
+}
+
+// One Tesseract worker for the whole run: loading the model is the slow part
+let ocrWorker: Promise<Worker> | null = null;
+
+function getOcrWorker() {
+  ocrWorker ??= createWorker("eng").then(async (worker) => {
+    await worker.setParameters({
+      tessedit_char_whitelist: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789",
+      tessedit_pageseg_mode: PSM.SINGLE_LINE,
+    });
+    return worker;
+  });
+  return ocrWorker;
+}
+
+export async function terminateOcr() {
+  if (!ocrWorker) return;
+  const worker = ocrWorker;
+  ocrWorker = null;
+  await (await worker).terminate();
+}
+
+/**
+ * Local OCR with Tesseract, after scaling the image up and thresholding it to
+ * black and white to strip the background noise
+ */
+export class OcrSolver implements CaptchaSolver {
+  readonly name = "ocr";
+
+  constructor(private config: z.infer<typeof ocrSolverSchema>) {}
+
+  async solve(image: Buffer, sample: number): Promise<CaptchaGuess> {
+    const started = Date.now();
+    const { scale, threshold } = this.config.preprocess;
+    // Tesseract is deterministic, so voting samples vary the threshold instead
+    const offset = (sample - Math.floor(this.config.samples / 2)) * 15;
+
+    const processed = await Jimp.read(image);
+    processed
+      .greyscale()
+      .scale(scale)
+      .threshold({ max: Math.min(255, Math.max(0, threshold + offset)) });
+
+    const worker = await getOcrWorker();
+    const { data } = await worker.recognize(await processed.getBuffer("image/png"));
+    return {
+      solver: this.name,
+      text: data.text.replace(/[^a-zA-Z0-9]/g, ""),
+      confidence: data.confidence / 100,
+      latencyMs: Date.now() - started,
+    };
+  }
+}
+
+// What CustomOpenAIClient returns for a plain text completion
+type LlmTextResponse = { data: string | null; usage: LLMResponse["usage"] };
+
+/**
+ * Ask a vision LLM to read the CAPTCHA
+ */
+export class LlmSolver implements CaptchaSolver {
+  readonly name: string;
+
+  constructor(private config: z.infer<typeof llmSolverSchema>) {
+    this.name = `llm:${config.model}`;
+  }
+
+  async solve(image: Buffer, sample: number): Promise<CaptchaGuess> {
+    const started = Date.now();
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const llm = new CustomOpenAIClient({ modelName: this.config.model, client: openai });
+
+    // Compose the message with text and image
+    const prompt =
+      "Look at the CAPTCHA image and tell me what characters are shown. The CAPTCHA should contain letters and/or numbers. Return ONLY the characters you see, nothing else. Be precise and accurate.";
+
+    const { data, usage } = await llm.createChatCompletion<LlmTextResponse>({
+      options: {
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              {
+                type: "image_url",
+                image_url: {
+                  url: `data:image/png;base64,${image.toString("base64")}`,
+                },
+              },
+            ],
+          },
+        ],
+        maxTokens: 20,
+        // Voting needs the samples to be able to disagree
+        temperature: sample === 0 ? 0.1 : 0.7,
+      },
+      logger: () => {},
+    });
+    // Made outside Stagehand, so not in the stagehand.metrics the check records
+    recordLlmUsage(this.config.model, usage);
+
+    return {
+      solver: this.name,
+      text: data?.replace(/[^a-zA-Z0-9]/g, "") || "",
+      confidence: this.config.confidence,
+      latencyMs: Date.now() - started,
+      usage: { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens },
+    };
+  }
+}
+
+export function createSolver(config: SolverConfig): CaptchaSolver {
+  return config.type === "ocr" ? new OcrSolver(config) : new LlmSolver(config);
+}
+
+/**
+ * Ask a solver several times and take the majority answer. The confidence is
+ * the share of samples that agreed, times their average confidence.
+ * @param solver - The solver to ask
+ * @param image - The CAPTCHA screenshot
+ * @param samples - How many answers to collect
+ * @returns The winning guess, with latency and usage summed over all samples
+ */
+export async function solveWithVotes(solver: CaptchaSolver, image: Buffer, samples: number): Promise<CaptchaGuess> {
+  const guesses: CaptchaGuess[] = [];
+  for (let sample = 0; sample < samples; sample++) {
+    guesses.push(await solver.solve(image, sample));
+  }
+  if (samples === 1) return guesses[0];
+
+  const votes = new Map<string, CaptchaGuess[]>();
+  for (const guess of guesses) {
+    if (!guess.text) continue;
+    votes.set(guess.text, [...(votes.get(guess.text) ?? []), guess]);
+  }
+  const [text, winners] = [...votes].sort((a, b) => b[1].length - a[1].length)[0] ?? ["", []];
+  const averageConfidence = winners.reduce((sum, g) => sum + g.confidence, 0) / (winners.length || 1);
+
+  return {
+    solver: `${solver.name} (${winners.length}/${samples} votes)`,
+    text,
+    confidence: (winners.length / samples) * averageConfidence,
+    latencyMs: guesses.reduce((sum, g) => sum + g.latencyMs, 0),
+    usage: guesses.some((g) => g.usage)
+      ? {
+          promptTokens: guesses.reduce((sum, g) => sum + (g.usage?.promptTokens ?? 0), 0),
+          completionTokens: guesses.reduce((sum, g) => sum + (g.usage?.completionTokens ?? 0), 0),
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Screenshot the CAPTCHA image on the login page
+ * @param page - The login page
+ * @returns A PNG of just the CAPTCHA
+ */
+export async function captureCaptcha(page: Page): Promise<Buffer> {
+  const captcha = page.locator('img[src*="captcha" i], img[alt*="captcha" i], img[id*="captcha" i]').first();
+  if ((await captcha.count()) === 0) {
+    throw new Error("Could not find CAPTCHA image");
+  }
+  return captcha.screenshot();
+}
+
+/**
+ * Get a new CAPTCHA: click the portal's refresh control if it has one,
+ * otherwise reload the image with a cache-busting query string
+ */
+export async function refreshCaptcha(page: Page) {
+  const refresh = page
+    .locator(
+      ':is(a, button, img, input):is([id*="refresh" i], [title*="refresh" i], [alt*="refresh" i], [id*="reload" i], [title*="reload" i])',
+    )
+    .first();
+  if ((await refresh.count()) > 0) {
+    await refresh.click();
+  } else {
+    await page.evaluate(() => {
+      const img = document.querySelector<HTMLImageElement>('img[src*="captcha" i], img[alt*="captcha" i], img[id*="captcha" i]');
+      if (!img) return;
+      const url = new URL(img.src, location.href);
+      url.searchParams.set("_", String(Date.now()));
+      img.src = url.toString();
+    });
+  }
+  await page
+    .locator('img[src*="captcha" i], img[alt*="captcha" i], img[id*="captcha" i]')
+    .first()
+    .evaluate((img: HTMLImageElement) => (img.complete ? undefined : new Promise((resolve) => (img.onload = resolve))));
+}
+
+export type CaptchaSolveResult = {
+  guess: CaptchaGuess;
+  image: Buffer;
+  // Every answer that was tried, including the rejected ones
+  guesses: CaptchaGuess[];
+};
+
+/**
+ * Run the solver chain on the CAPTCHA shown on the page. Each solver is tried
+ * in order; the first answer that matches the expected pattern and clears its
+ * confidence threshold wins. When every solver falls short, a fresh CAPTCHA
+ * is loaded and the chain runs again, up to `refreshAttempts` times.
+ * @param page - The login page
+ * @param stagehand - Used for logging
+ * @param config - The solver chain
+ * @param makeSolver - Builds each solver in the chain
+ * @returns The accepted answer, or null if a human needs to step in
+ */
+export async function solveCaptcha(
+  page: Page,
+  stagehand: Stagehand,
+  config: CaptchaConfig,
+  makeSolver: (config: SolverConfig) => CaptchaSolver = createSolver,
+): Promise<CaptchaSolveResult | null> {
+  const pattern = new RegExp(config.pattern);
+  const solvers = config.solvers.map((solverConfig) => ({ solverConfig, solver: makeSolver(solverConfig) }));
+  const guesses: CaptchaGuess[] = [];
+
+  for (let round = 0; round <= config.refreshAttempts; round++) {
+    if (round > 0) {
+      stagehand.log({ category: "captcha", message: `No confident answer, refreshing the CAPTCHA (${round}/${config.refreshAttempts})` });
+      await refreshCaptcha(page);
+    }
+    const image = await captureCaptcha(page);
+
+    for (const { solverConfig, solver } of solvers) {
+      let guess: CaptchaGuess;
+      try {
+        guess = await solveWithVotes(solver, image, solverConfig.samples);
+      } catch (error: any) {
+        stagehand.log({ category: "error", message: `CAPTCHA solver ${solver.name} failed: ${error.message}` });
+        continue;
+      }
+      guesses.push(guess);
+
+      const threshold = solverConfig.minConfidence ?? config.minConfidence;
+      const accepted = pattern.test(guess.text) && guess.confidence >= threshold;
+      stagehand.log({
+        category: "captcha",
+        message: `${guess.solver} read "${guess.text}" (confidence ${guess.confidence.toFixed(2)}, ${accepted ? "accepted" : "rejected"})`,
+        auxiliary: { latencyMs: { value: String(guess.latencyMs), type: "integer" } },
+      });
+      if (accepted) return { guess, image, guesses };
+    }
+  }
+  return null;
+}
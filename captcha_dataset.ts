@@ -0,0 +1,234 @@
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import readline from "readline";
+import chalk from "chalk";
+import { CaptchaGuess, createSolver, loadCaptchaConfig, solveWithVotes, SolverConfig, terminateOcr } from "./captcha.js";
+import { announce } from "./utils.js";
+
+/**
+ * One CAPTCHA seen during a login: the screenshot, what was typed and whether
+ * the login went through. A successful login makes the guess the label.
+ */
+export type CaptchaSample = {
+  id: string;
+  image: string; // file name inside the dataset directory
+  guess: string;
+  solver: string; // "manual" for answers typed by a human
+  confidence: number | null;
+  success: boolean;
+  recordedAt: string;
+};
+
+const INDEX_FILE = "samples.jsonl";
+
+// Shared by every account: a CAPTCHA is a CAPTCHA whoever logs in
+function getDatasetDir() {
+  return process.env.CAPTCHA_DATASET_DIR || path.join(process.env.DATA_DIR || "data", "captcha-dataset");
+}
+
+export function isDatasetEnabled() {
+  return process.env.CAPTCHA_DATASET !== "false";
+}
+
+/**
+ * Save a CAPTCHA screenshot with the answer that was submitted and whether
+ * the login then succeeded
+ * @param image - The CAPTCHA screenshot
+ * @param guess - The submitted answer and who gave it
+ * @param success - Whether the login went through
+ */
+export async function recordCaptchaSample(
+  image: Buffer,
+  guess: { text: string; solver: string; confidence?: number },
+  success: boolean,
+) {
+  if (!isDatasetEnabled()) return;
+  const dir = getDatasetDir();
+  await fs.mkdir(dir, { recursive: true });
+
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  await fs.writeFile(path.join(dir, `${id}.png`), image);
+  const sample: CaptchaSample = {
+    id,
+    image: `${id}.png`,
+    guess: guess.text,
+    solver: guess.solver,
+    confidence: guess.confidence ?? null,
+    success,
+    recordedAt: new Date().toISOString(),
+  };
+  // Append-only like history.jsonl, so concurrent logins can't clobber each other
+  await fs.appendFile(path.join(dir, INDEX_FILE), JSON.stringify(sample) + "\n");
+}
+
+export async function* readCaptchaSamples(): AsyncGenerator<CaptchaSample> {
+  const file = path.join(getDatasetDir(), INDEX_FILE);
+  try {
+    await fs.access(file);
+  } catch {
+    return;
+  }
+
+  const lines = readline.createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line);
+    } catch {
+      // Skip lines cut short by a crash
+    }
+  }
+}
+
+// USD per million tokens, for the models people are likely to try. Unknown
+// models are reported without a cost.
+const PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+};
+
+export function estimateCost(config: SolverConfig, usage: CaptchaGuess["usage"]): number | null {
+  if (config.type === "ocr") return 0;
+  const price = PRICES[config.model];
+  if (!price || !usage) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export type BenchmarkResult = {
+  solver: string;
+  samples: number;
+  correct: number;
+  errors: number;
+  latencyMs: number[];
+  costUsd: number | null;
+};
+
+function percentile(values: number[], p: number) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+/**
+ * Replay the labeled samples (those whose login succeeded) through every
+ * configured solver
+ * @param limit - Only use the most recent N samples
+ * @returns Accuracy, latency and cost per solver
+ */
+export async function runBenchmark(limit?: number): Promise<BenchmarkResult[]> {
+  const labeled: CaptchaSample[] = [];
+  for await (const sample of readCaptchaSamples()) {
+    if (sample.success && sample.guess) labeled.push(sample);
+  }
+  const samples = limit ? labeled.slice(-limit) : labeled;
+  const config = await loadCaptchaConfig();
+  const results: BenchmarkResult[] = [];
+
+  for (const solverConfig of config.solvers) {
+    const solver = createSolver(solverConfig);
+    const result: BenchmarkResult = {
+      solver: solverConfig.samples > 1 ? `${solver.name} x${solverConfig.samples}` : solver.name,
+      samples: samples.length,
+      correct: 0,
+      errors: 0,
+      latencyMs: [],
+      costUsd: 0,
+    };
+
+    for (const sample of samples) {
+      const image = await fs.readFile(path.join(getDatasetDir(), sample.image));
+      try {
+        const guess = await solveWithVotes(solver, image, solverConfig.samples);
+        result.latencyMs.push(guess.latencyMs);
+        // The portal doesn't care about case
+        if (guess.text.toUpperCase() === sample.guess.toUpperCase()) result.correct++;
+        const cost = estimateCost(solverConfig, guess.usage);
+        result.costUsd = cost === null || result.costUsd === null ? null : result.costUsd + cost;
+      } catch {
+        result.errors++;
+      }
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+const CAPTCHA_USAGE =
+  `Usage: pnpm captcha <command>\n\n` +
+  `  stats                 How often each solver's answers got us logged in\n` +
+  `  benchmark [--limit N] Replay the labeled CAPTCHAs through every solver in captcha.json`;
+
+/**
+ * Entry point for `pnpm captcha ...`
+ * @param args - The CLI arguments after "captcha"
+ */
+export async function runCaptchaCommand(args: string[]) {
+  const [command] = args;
+
+  switch (command) {
+    case "stats": {
+      const bySolver = new Map<string, { total: number; success: number }>();
+      for await (const sample of readCaptchaSamples()) {
+        // Group voting results with their solver: "llm:gpt-4o (2/3 votes)"
+        const solver = sample.solver.replace(/ \(.*\)$/, "");
+        const stats = bySolver.get(solver) ?? { total: 0, success: 0 };
+        stats.total++;
+        if (sample.success) stats.success++;
+        bySolver.set(solver, stats);
+      }
+      announce(
+        bySolver.size
+          ? Array.from(
+              bySolver,
+              ([solver, { total, success }]) =>
+                `${chalk.bold(solver)}: ${success}/${total} logins (${((success / total) * 100).toFixed(1)}%)`,
+            ).join("\n")
+          : "No CAPTCHAs recorded yet",
+        "CAPTCHA Dataset",
+      );
+      return;
+    }
+
+    case "benchmark": {
+      const limitFlag = args.indexOf("--limit");
+      const limit = limitFlag === -1 ? undefined : Number(args[limitFlag + 1]) || undefined;
+      try {
+        const results = await runBenchmark(limit);
+        if (results.length === 0 || results[0].samples === 0) {
+          announce("No labeled CAPTCHAs yet: they're collected from successful logins", "CAPTCHA Benchmark");
+          return;
+        }
+        announce(
+          results
+            .map((result) => {
+              const answered = result.samples - result.errors;
+              const mean = result.latencyMs.reduce((sum, ms) => sum + ms, 0) / (result.latencyMs.length || 1);
+              return (
+                `${chalk.bold(result.solver)}\n` +
+                `  Accuracy: ${chalk.green(`${((result.correct / result.samples) * 100).toFixed(1)}%`)} (${result.correct}/${result.samples}` +
+                (result.errors ? `, ${chalk.red(`${result.errors} error(s)`)}` : "") +
+                `)\n` +
+                `  Latency:  mean ${Math.round(mean)}ms, p95 ${Math.round(percentile(result.latencyMs, 95))}ms\n` +
+                `  Cost:     ` +
+                (result.costUsd === null
+                  ? "unknown model price"
+                  : `$${result.costUsd.toFixed(4)} total, $${(result.costUsd / (answered || 1)).toFixed(5)} per CAPTCHA`)
+              );
+            })
+            .join("\n\n"),
+          "CAPTCHA Benchmark",
+        );
+      } finally {
+        await terminateOcr();
+      }
+      return;
+    }
+  }
+
+  console.log(CAPTCHA_USAGE);
+  process.exitCode = 1;
+}
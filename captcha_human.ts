@@ -0,0 +1,232 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { randomBytes } from "crypto";
+import { isDaemonMode, isShutdownRequested, sleep } from "./daemon.js";
+import { Notifier } from "./notifiers/notifier.js";
+import { deliver, NotificationPolicy } from "./notifiers/policy.js";
+import { TelegramNotifier } from "./notifiers/telegram_notifier.js";
+import { escapeHtml } from "./report.js";
+
+export type HumanCaptchaMode = "terminal" | "remote" | "off";
+
+/**
+ * How to ask a human for a CAPTCHA the solvers couldn't read: CAPTCHA_HUMAN
+ * is "terminal", "remote", "off" or "auto" (default: the terminal when there
+ * is one, otherwise remote)
+ */
+export function getHumanCaptchaMode(): HumanCaptchaMode {
+  const mode = process.env.CAPTCHA_HUMAN || "auto";
+  if (mode === "terminal" || mode === "remote" || mode === "off") return mode;
+  return process.stdin.isTTY && !isDaemonMode() ? "terminal" : "remote";
+}
+
+type PendingCaptcha = {
+  id: string;
+  label: string;
+  image: Buffer;
+  requestedAt: Date;
+  // The bot whose replies can answer it, if the account uses Telegram
+  telegramBot?: string;
+  answer: (text: string) => void;
+};
+
+// Every CAPTCHA waiting for a human, across accounts
+const pending = new Map<string, PendingCaptcha>();
+
+let server: http.Server | null = null;
+let serverUrl = "";
+const token = process.env.CAPTCHA_WEB_TOKEN || randomBytes(12).toString("hex");
+
+function renderPage() {
+  const items = [...pending.values()]
+    .map(
+      (captcha) => `
+  <form method="post" action="/answer/${captcha.id}?token=${token}">
+    <h2>${escapeHtml(captcha.label)} <small>(${captcha.id}, asked ${captcha.requestedAt.toLocaleTimeString()})</small></h2>
+    <img src="/captcha/${captcha.id}.png?token=${token}" alt="CAPTCHA" style="height: 60px; image-rendering: pixelated;"><br>
+    <input name="text" autocomplete="off" autofocus required>
+    <button type="submit">Log in</button>
+  </form>`,
+    )
+    .join("<hr>");
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  ${pending.size ? "" : '<meta http-equiv="refresh" content="10">'}
+  <title>PEC Course Monitor - CAPTCHA</title>
+</head>
+<body style="font-family: sans-serif; max-width: 480px; margin: 2em auto;">
+  <h1>🔍 CAPTCHA needed</h1>
+  ${items || "<p>Nothing to solve right now. This page refreshes by itself.</p>"}
+</body>
+</html>`;
+}
+
+/**
+ * Start the local CAPTCHA page (once per run). It listens on CAPTCHA_WEB_HOST
+ * (default: 127.0.0.1) and CAPTCHA_WEB_PORT (default: 4020); every URL needs
+ * the run's token, so only links we sent out work.
+ * @returns The page URL, token included
+ */
+async function ensureServer(): Promise<string> {
+  if (server) return serverUrl;
+
+  server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const send = (status: number, body: string | Buffer, contentType = "text/html; charset=utf-8") => {
+      res.writeHead(status, { "Content-Type": contentType, "Cache-Control": "no-store" });
+      res.end(body);
+    };
+
+    if (url.searchParams.get("token") !== token) return send(403, "Forbidden", "text/plain");
+
+    const image = url.pathname.match(/^\/captcha\/(\w+)\.png$/);
+    if (req.method === "GET" && image) {
+      const captcha = pending.get(image[1]);
+      return captcha ? send(200, captcha.image, "image/png") : send(404, "Gone", "text/plain");
+    }
+
+    const answer = url.pathname.match(/^\/answer\/(\w+)$/);
+    if (req.method === "POST" && answer) {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      const text = new URLSearchParams(body).get("text")?.trim();
+      const captcha = pending.get(answer[1]);
+      if (captcha && text) captcha.answer(text);
+      res.writeHead(303, { Location: `/?token=${token}` });
+      return res.end();
+    }
+
+    if (req.method === "GET" && url.pathname === "/") return send(200, renderPage());
+    send(404, "Not found", "text/plain");
+  });
+
+  const host = process.env.CAPTCHA_WEB_HOST || "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server!.once("error", reject);
+    server!.listen(Number(process.env.CAPTCHA_WEB_PORT) || 4020, host, resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  // CAPTCHA_WEB_URL is how the page is reached from your phone, e.g. through a tunnel
+  serverUrl = `${(process.env.CAPTCHA_WEB_URL || `http://${host}:${port}`).replace(/\/$/, "")}/?token=${token}`;
+  return serverUrl;
+}
+
+export async function stopCaptchaServer() {
+  if (!server) return;
+  const closing = server;
+  server = null;
+  closing.closeAllConnections();
+  await new Promise((resolve) => closing.close(resolve));
+}
+
+// One poller per bot, so replies aren't consumed twice: reading a bot's
+// updates confirms (and drops) everything before them
+const telegramPollers = new Map<string, Promise<void>>();
+
+function pendingFor(botToken: string) {
+  return [...pending.values()].filter((captcha) => captcha.telegramBot === botToken);
+}
+
+/**
+ * Take CAPTCHA answers from Telegram replies: "<ID> <TEXT>", or just the text
+ * while only one CAPTCHA is waiting on this bot
+ */
+function pollTelegram(telegram: TelegramNotifier) {
+  const { botToken } = telegram;
+  if (telegramPollers.has(botToken)) return;
+
+  const poller = (async () => {
+    // Skip anything sent before we asked
+    let { nextOffset } = await telegram.getReplies(-1).catch(() => ({ nextOffset: undefined }));
+    while (pendingFor(botToken).length > 0 && !isShutdownRequested()) {
+      try {
+        const result = await telegram.getReplies(nextOffset);
+        nextOffset = result.nextOffset;
+        for (const reply of result.replies) {
+          const [first, ...rest] = reply.trim().split(/\s+/);
+          const byId = pending.get(first.toUpperCase());
+          const waiting = pendingFor(botToken);
+          if (byId?.telegramBot === botToken && rest.length) byId.answer(rest.join(""));
+          else if (waiting.length === 1 && !rest.length) waiting[0].answer(first);
+        }
+      } catch {
+        await sleep(5_000);
+      }
+    }
+  })().finally(() => {
+    telegramPollers.delete(botToken);
+  });
+  telegramPollers.set(botToken, poller);
+}
+
+/**
+ * Ask a human to read a CAPTCHA without blocking the terminal: the image goes
+ * out through the notifiers with a link to the local CAPTCHA page, and the
+ * first answer from the page or a Telegram reply wins.
+ * @param image - The CAPTCHA screenshot
+ * @param label - Which account is asking
+ * @param notifiers - Where to send the request
+ * @param policy - Applied to the request, which is urgent: it skips quiet hours and the rate limit
+ * @returns The answer
+ * @throws If nobody answers within CAPTCHA_HUMAN_TIMEOUT_MINUTES (default: 5)
+ */
+export async function askHumanForCaptcha({
+  image,
+  label,
+  notifiers,
+  policy,
+}: {
+  image: Buffer;
+  label: string;
+  notifiers: Notifier[];
+  policy: NotificationPolicy;
+}): Promise<string> {
+  const timeoutMs = (Number(process.env.CAPTCHA_HUMAN_TIMEOUT_MINUTES) || 5) * 60_000;
+  const url = await ensureServer();
+
+  let id: string;
+  do {
+    id = randomBytes(2).toString("hex").toUpperCase();
+  } while (pending.has(id));
+
+  const telegram = notifiers.find((notifier): notifier is TelegramNotifier => notifier instanceof TelegramNotifier);
+  const answered = new Promise<string>((resolve) =>
+    pending.set(id, { id, label, image, requestedAt: new Date(), telegramBot: telegram?.botToken, answer: resolve }),
+  );
+  const timeout = new AbortController();
+
+  try {
+    // Start listening for replies before anyone can send one
+    if (telegram) pollTelegram(telegram);
+
+    await deliver(notifiers, {
+      subject: `PEC Course Monitor - CAPTCHA needed (${label})`,
+      text:
+        `The CAPTCHA solvers couldn't read this one. Open ${url} to answer it` +
+        (telegram ? `, or reply "${id} <text>".` : "."),
+      html: `<p>The CAPTCHA solvers couldn't read this one.</p><p><a href="${url}">Answer it here</a> (request ${id}).</p>`,
+      attachments: [{ filename: `captcha-${id}.png`, contentType: "image/png", content: image }],
+      // Nobody answers a CAPTCHA held until morning
+      urgent: true,
+    }, policy);
+
+    // Sleeping on the daemon's clock wakes us up on shutdown too
+    const text = await Promise.race([answered, sleep(timeoutMs, timeout.signal).then(() => null)]);
+    if (text === null) {
+      throw new Error(
+        isShutdownRequested()
+          ? "Shutting down while waiting for a CAPTCHA answer"
+          : `Nobody answered the CAPTCHA within ${timeoutMs / 60_000} minute(s)`,
+      );
+    }
+    return text;
+  } finally {
+    // Cancel the timer once an answer has won the race
+    timeout.abort();
+    pending.delete(id);
+  }
+}
@@ -0,0 +1,97 @@
+import fs from "fs/promises";
+import type { CourseRow } from "./courses.js";
+import { getDataPath, writeFileAtomic } from "./utils.js";
+
+export type Snapshot = {
+  takenAt: string;
+  courses: CourseRow[];
+};
+
+export type CourseChange =
+  | { type: "became_selectable"; course: CourseRow; previous: CourseRow }
+  | { type: "checkbox_changed"; course: CourseRow; previous: CourseRow }
+  | { type: "added"; course: CourseRow }
+  | { type: "removed"; previous: CourseRow };
+
+const SNAPSHOT_FILE = "last-snapshot.json";
+
+/**
+ * Load the snapshot saved by the previous check
+ * @returns The previous snapshot, or null on the first run
+ */
+export async function loadSnapshot(): Promise<Snapshot | null> {
+  try {
+    const contents = await fs.readFile(await getDataPath(SNAPSHOT_FILE), "utf-8");
+    return JSON.parse(contents);
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function saveSnapshot(courses: CourseRow[]): Promise<Snapshot> {
+  const snapshot: Snapshot = { takenAt: new Date().toISOString(), courses };
+  await writeFileAtomic(await getDataPath(SNAPSHOT_FILE), JSON.stringify(snapshot, null, 2));
+  return snapshot;
+}
+
+/**
+ * Identify a row of the Add/Drop table: a course offered in several sections
+ * or slots has one row per offering, all with the same course code
+ */
+export function courseRowKey(course: CourseRow): string {
+  return [course.courseCode, course.section ?? "", course.slot ?? ""].join("|");
+}
+
+/**
+ * Compare two course tables and return only the meaningful transitions:
+ * a row becoming selectable, its checkbox flipping, or a row appearing in /
+ * disappearing from the table. Rows are matched by course code, section and
+ * slot.
+ * @param previous - The courses from the previous check
+ * @param current - The courses from this check
+ * @returns The changes, in current table order followed by removals
+ */
+export function diffCourses(previous: CourseRow[], current: CourseRow[]): CourseChange[] {
+  const previousByKey = new Map(previous.map((course) => [courseRowKey(course), course]));
+  const currentKeys = new Set(current.map(courseRowKey));
+  const changes: CourseChange[] = [];
+
+  for (const course of current) {
+    const before = previousByKey.get(courseRowKey(course));
+    if (!before) {
+      changes.push({ type: "added", course });
+      continue;
+    }
+    if (!before.isSelectable && course.isSelectable) {
+      changes.push({ type: "became_selectable", course, previous: before });
+    }
+    if (before.checkboxState !== course.checkboxState) {
+      changes.push({ type: "checkbox_changed", course, previous: before });
+    }
+  }
+
+  for (const before of previous) {
+    if (!currentKeys.has(courseRowKey(before))) {
+      changes.push({ type: "removed", previous: before });
+    }
+  }
+
+  return changes;
+}
+
+export function getChangedCourse(change: CourseChange): CourseRow {
+  return change.type === "removed" ? change.previous : change.course;
+}
+
+export function describeChange(change: CourseChange): string {
+  switch (change.type) {
+    case "became_selectable":
+      return "is now SELECTABLE";
+    case "checkbox_changed":
+      return `checkbox ${change.previous.checkboxState.toUpperCase()} → ${change.course.checkboxState.toUpperCase()}`;
+    case "added":
+      return `appeared in the table (${change.course.isSelectable ? "selectable" : "not selectable"})`;
+    case "removed":
+      return "disappeared from the table";
+  }
+}
@@ -0,0 +1,168 @@
+import { Page } from "@browserbasehq/stagehand";
+import { HTMLElement, parse } from "node-html-parser";
+
+export type CheckboxState = "checked" | "unchecked" | "not_found";
+
+/**
+ * One row of the Add/Drop course table. Columns the page doesn't have (or
+ * that couldn't be read) are null.
+ */
+export type CourseRow = {
+  courseCode: string;
+  courseName: string;
+  isSelectable: boolean;
+  isVisible: boolean;
+  checkboxState: CheckboxState;
+  onclick: string;
+  credits: number | null;
+  slot: string | null;
+  section: string | null;
+  faculty: string | null;
+  seatsAvailable: number | null;
+  seatsTotal: number | null;
+  courseType: string | null;
+};
+
+type Column =
+  | "courseCode"
+  | "courseName"
+  | "credits"
+  | "slot"
+  | "section"
+  | "faculty"
+  | "seatsAvailable"
+  | "seatsTotal"
+  | "courseType";
+
+// Header text → column. Order matters: the first pattern that matches wins.
+const HEADER_PATTERNS: [RegExp, Column][] = [
+  [/course\s*code|sub(ject)?\s*code|^code$/i, "courseCode"],
+  [/course\s*(name|title)|sub(ject)?\s*(name|title)|^(name|title)$/i, "courseName"],
+  [/credit/i, "credits"],
+  [/slot/i, "slot"],
+  [/section|group/i, "section"],
+  [/faculty|teacher|instructor/i, "faculty"],
+  [/avail|vacan|remaining/i, "seatsAvailable"],
+  [/total|capacity|intake/i, "seatsTotal"],
+  [/seat/i, "seatsAvailable"],
+  [/type|category|elective|core/i, "courseType"],
+];
+
+const COURSE_CODE_PATTERN = /^[A-Z]{2}\d{4}$/;
+
+function cellText(cell: HTMLElement | undefined): string {
+  return cell?.textContent.replace(/\s+/g, " ").trim() ?? "";
+}
+
+function directCells(row: HTMLElement, tag: "td" | "th"): HTMLElement[] {
+  return row.childNodes.filter(
+    (node): node is HTMLElement => node instanceof HTMLElement && node.rawTagName?.toLowerCase() === tag,
+  );
+}
+
+function parseNumber(text: string): number | null {
+  const match = text.match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+/**
+ * Read a header row into a column map. A row only counts as a header if at
+ * least two of its cells are recognised.
+ */
+function parseHeader(row: HTMLElement): Map<number, Column> | null {
+  const cells = [...directCells(row, "th"), ...directCells(row, "td")];
+  const columns = new Map<number, Column>();
+  cells.forEach((cell, i) => {
+    const text = cellText(cell);
+    const match = HEADER_PATTERNS.find(([pattern]) => pattern.test(text));
+    if (match && ![...columns.values()].includes(match[1])) columns.set(i, match[1]);
+  });
+  return columns.size >= 2 && [...columns.values()].includes("courseCode") ? columns : null;
+}
+
+function parseRow(row: HTMLElement, columns: Map<number, Column> | null): CourseRow | null {
+  const cells = directCells(row, "td");
+  if (cells.length < 3) return null; // Skip rows that don't have enough cells
+
+  const byColumn = new Map<Column, string>();
+  for (const [i, column] of columns ?? []) {
+    byColumn.set(column, cellText(cells[i]));
+  }
+
+  // Without a usable header, fall back to the first cell that looks like a
+  // course code, with the course name in the next cell
+  let courseCode = byColumn.get("courseCode") ?? "";
+  let courseName = byColumn.get("courseName") ?? "";
+  if (!COURSE_CODE_PATTERN.test(courseCode)) {
+    const codeIndex = cells.findIndex((cell) => COURSE_CODE_PATTERN.test(cellText(cell)));
+    if (codeIndex === -1) return null; // Skip rows without course codes
+    courseCode = cellText(cells[codeIndex]);
+    courseName = courseName || cellText(cells[codeIndex + 1]);
+  }
+
+  // A seats column reads "12" or, combined with the total, "12/60"
+  const [seatsAvailable, combinedTotal] = (byColumn.get("seatsAvailable") ?? "").split("/").map(parseNumber);
+  const seatsTotal = byColumn.has("seatsTotal") ? parseNumber(byColumn.get("seatsTotal")!) : combinedTotal ?? null;
+
+  const checkbox = row.querySelector('input[type="checkbox"]');
+  const optional = (column: Column) => byColumn.get(column) || null;
+
+  return {
+    courseCode,
+    courseName,
+    isSelectable: !!checkbox && !checkbox.hasAttribute("disabled"),
+    isVisible: true,
+    checkboxState: !checkbox ? "not_found" : checkbox.hasAttribute("checked") ? "checked" : "unchecked",
+    onclick: checkbox?.getAttribute("onclick") || "none",
+    credits: byColumn.has("credits") ? parseNumber(byColumn.get("credits")!) : null,
+    slot: optional("slot"),
+    section: optional("section"),
+    faculty: optional("faculty"),
+    seatsAvailable,
+    seatsTotal,
+    courseType: optional("courseType"),
+  };
+}
+
+/**
+ * Parse the Add/Drop course table out of the page HTML. Each innermost table
+ * is read on its own: its header row (if any) decides which column holds
+ * what, and rows without a course code are skipped.
+ * @param html - The HTML of the Add/Drop page
+ * @returns The courses, in document order
+ */
+export function parseAddDropTable(html: string): CourseRow[] {
+  const root = parse(html);
+  const courses: CourseRow[] = [];
+  const headers = new Map<HTMLElement, Map<number, Column>>();
+
+  for (const row of root.querySelectorAll("tr")) {
+    // Rows that wrap a nested table are layout, not data
+    if (row.querySelector("tr")) continue;
+
+    const table = row.closest("table") as HTMLElement | null;
+    const columns = table ? headers.get(table) : undefined;
+
+    if (!columns) {
+      const header = parseHeader(row);
+      if (header && table) {
+        headers.set(table, header);
+        continue;
+      }
+    }
+
+    const course = parseRow(row, columns ?? null);
+    if (course) courses.push(course);
+  }
+
+  return courses;
+}
+
+/**
+ * Read every course row (and its checkbox state) from the Add/Drop table
+ * @param page - The page showing the Add/Drop course table
+ * @returns The courses, in table order
+ */
+export async function scrapeCourses(page: Page): Promise<CourseRow[]> {
+  return parseAddDropTable(await page.content());
+}
@@ -0,0 +1,90 @@
+import fs from "fs/promises";
+import { setTimeout as delay } from "timers/promises";
+import chalk from "chalk";
+import { getDataPath } from "./utils.js";
+
+const shutdownController = new AbortController();
+
+/**
+ * Daemon mode runs headless, writes a PID file and never prompts on the
+ * terminal. Enabled with `--daemon` or DAEMON=true.
+ */
+export function isDaemonMode() {
+  return process.argv.includes("--daemon") || process.env.DAEMON === "true";
+}
+
+export function isShutdownRequested() {
+  return shutdownController.signal.aborted;
+}
+
+/**
+ * Sleep between checks, waking up early if a shutdown is requested
+ * @param ms - How long to sleep
+ * @param wake - Also wake up when this is aborted (e.g. "check now")
+ */
+export async function sleep(ms: number, wake?: AbortSignal) {
+  const signal = wake ? AbortSignal.any([shutdownController.signal, wake]) : shutdownController.signal;
+  try {
+    await delay(ms, undefined, { signal });
+  } catch {
+    // Aborted by shutdown
+  }
+}
+
+/**
+ * On the first SIGINT/SIGTERM, let the current check finish and then stop.
+ * A second signal exits immediately.
+ */
+export function installShutdownHandlers() {
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (isShutdownRequested()) {
+      console.log(chalk.red(`\nReceived ${signal} again, exiting immediately`));
+      process.exit(1);
+    }
+    console.log(chalk.yellow(`\nReceived ${signal}, finishing the current check before shutting down...`));
+    shutdownController.abort();
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+}
+
+async function getPidFile() {
+  return process.env.PID_FILE || (await getDataPath("monitor.pid"));
+}
+
+function isProcessRunning(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === "EPERM";
+  }
+}
+
+/**
+ * Write our PID file, refusing to start if another monitor is still running.
+ * A PID file left behind by a crashed monitor is replaced.
+ */
+export async function writePidFile() {
+  const pidFile = await getPidFile();
+  try {
+    const existingPid = Number(await fs.readFile(pidFile, "utf-8"));
+    if (existingPid && existingPid !== process.pid && isProcessRunning(existingPid)) {
+      throw new Error(`Monitor already running with PID ${existingPid} (${pidFile})`);
+    }
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+  }
+  await fs.writeFile(pidFile, String(process.pid));
+}
+
+export async function removePidFile() {
+  const pidFile = await getPidFile();
+  try {
+    if (Number(await fs.readFile(pidFile, "utf-8")) === process.pid) {
+      await fs.rm(pidFile);
+    }
+  } catch {
+    // Already gone
+  }
+}
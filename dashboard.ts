@@ -0,0 +1,351 @@
+import http from "http";
+import { AddressInfo } from "net";
+import type { Account } from "./accounts.js";
+import { loadSnapshot } from "./changes.js";
+import type { CourseRow } from "./courses.js";
+import { percent } from "./digest.js";
+import { CheckRecord, readChecks, summarizeLogins } from "./history.js";
+import { escapeHtml } from "./report.js";
+import { renderMetrics } from "./metrics.js";
+import { loadSchedulerState } from "./scheduler.js";
+import { runInScope } from "./utils.js";
+import { describeWatchedCourse, loadWatchlist, matchWatchedCourses, WatchedCourseStatus } from "./watchlist.js";
+
+export type MonitorState = "starting" | "checking" | "waiting" | "stopped";
+
+/**
+ * What the monitor loop tells the dashboard about an account as it runs
+ */
+type LiveAccount = {
+  account: Account;
+  state: MonitorState;
+  nextRun: { at: string; reason: string } | null;
+  screenshot: { image: Buffer; takenAt: string; url: string } | null;
+  wake: AbortController;
+};
+
+/**
+ * Everything the dashboard shows for one account, as served by the JSON API
+ */
+export type AccountStatus = {
+  id: string;
+  state: MonitorState;
+  lastCheck: CheckRecord | null;
+  lastSuccessAt: string | null;
+  nextRun: { at: string; reason: string } | null;
+  snapshotAt: string | null;
+  courses: CourseRow[];
+  watched: WatchedCourseStatus[];
+  recentErrors: { at: string; error: string }[];
+  // Over the last 7 days
+  captcha: { attempts: number; solved: number; rate: string };
+  logins: { attempts: number; succeeded: number; rate: string };
+  screenshot: { takenAt: string; url: string } | null;
+};
+
+const RECENT_ERRORS = 10;
+const STATS_WINDOW_MS = 7 * 86_400_000;
+
+const accounts = new Map<string, LiveAccount>();
+
+let server: http.Server | null = null;
+
+/**
+ * The dashboard is off unless DASHBOARD=true
+ */
+export function isDashboardEnabled() {
+  return process.env.DASHBOARD === "true";
+}
+
+/**
+ * Show an account on the dashboard
+ */
+export function registerAccount(account: Account) {
+  accounts.set(account.id, { account, state: "starting", nextRun: null, screenshot: null, wake: new AbortController() });
+}
+
+/**
+ * Tell the dashboard what an account's monitor loop is doing
+ */
+export function updateAccountStatus(id: string, update: Partial<Pick<LiveAccount, "state" | "nextRun" | "screenshot">>) {
+  const live = accounts.get(id);
+  if (live) Object.assign(live, update);
+}
+
+/**
+ * A signal that's aborted when someone asks for a check from the dashboard;
+ * pass it to sleep() between checks
+ */
+export function checkNowSignal(id: string): AbortSignal {
+  const live = accounts.get(id);
+  if (!live) return new AbortController().signal;
+  live.wake = new AbortController();
+  return live.wake.signal;
+}
+
+/**
+ * Wake an account's monitor loop up for a check right away
+ * @returns What happened: a check starts, one is already running, or there's no such account
+ */
+export function requestCheck(id: string): "requested" | "already_checking" | "unknown_account" {
+  const live = accounts.get(id);
+  if (!live) return "unknown_account";
+  if (live.state === "checking") return "already_checking";
+  live.wake.abort();
+  return "requested";
+}
+
+/**
+ * Put together an account's status from the monitor loop and its data directory
+ */
+export async function collectAccountStatus(id: string): Promise<AccountStatus | null> {
+  const live = accounts.get(id);
+  if (!live) return null;
+  const { account } = live;
+
+  return runInScope({ dataDir: account.dataDir }, async () => {
+    const snapshot = await loadSnapshot();
+    // A broken watchlist file shouldn't take the dashboard down with it
+    const watchlist = account.watchlist ?? (await loadWatchlist().catch(() => []));
+
+    let lastCheck: CheckRecord | null = null;
+    let lastSuccessAt: string | null = null;
+    const errors: { at: string; error: string }[] = [];
+    const recent: CheckRecord[] = [];
+    const statsSince = Date.now() - STATS_WINDOW_MS;
+    for await (const check of readChecks()) {
+      lastCheck = check;
+      if (check.ok) lastSuccessAt = check.finishedAt;
+      else errors.push({ at: check.finishedAt, error: check.error ?? "unknown error" });
+      if (Date.parse(check.startedAt) >= statsSince) recent.push(check);
+    }
+    const { logins, captcha } = summarizeLogins(recent);
+
+    let nextRun = live.nextRun;
+    if (!nextRun) {
+      const state = await loadSchedulerState();
+      nextRun = state?.nextRunAt ? { at: state.nextRunAt, reason: "saved schedule" } : null;
+    }
+
+    return {
+      id: account.id,
+      state: live.state,
+      lastCheck,
+      lastSuccessAt,
+      nextRun,
+      snapshotAt: snapshot?.takenAt ?? null,
+      courses: snapshot?.courses ?? [],
+      watched: snapshot ? matchWatchedCourses(snapshot.courses, watchlist) : [],
+      recentErrors: errors.slice(-RECENT_ERRORS).reverse(),
+      captcha: { attempts: captcha.attempts, solved: captcha.solved, rate: percent(captcha.solved, captcha.attempts) },
+      logins: { attempts: logins.attempts, succeeded: logins.succeeded, rate: percent(logins.succeeded, logins.attempts) },
+      screenshot: live.screenshot && { takenAt: live.screenshot.takenAt, url: live.screenshot.url },
+    };
+  });
+}
+
+const when = (at: string | null | undefined) => (at ? escapeHtml(new Date(at).toLocaleString()) : "never");
+
+function renderLayout(title: string, body: string) {
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta http-equiv="refresh" content="30">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; }
+    table { border-collapse: collapse; width: 100%; }
+    td, th { padding: 4px 8px; border: 1px solid #ddd; text-align: left; }
+    .yes { color: green; font-weight: bold; }
+    .no { color: #b00; }
+    .card { border: 1px solid #ccc; border-radius: 6px; padding: 1em; margin-bottom: 1em; }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function renderCheckButton(status: AccountStatus, query: string) {
+  return `<form method="post" action="/accounts/${status.id}/check${query}" style="display: inline;">
+      <button type="submit"${status.state === "checking" ? " disabled" : ""}>${status.state === "checking" ? "Checking..." : "Check now"}</button>
+    </form>`;
+}
+
+function renderSummary(status: AccountStatus, query: string) {
+  const watched = status.watched
+    .map(
+      (course) =>
+        `<li class="${course.isSelectable ? "yes" : "no"}">${escapeHtml(describeWatchedCourse(course))} ${escapeHtml(course.courseName)}: ` +
+        `${course.isSelectable ? "SELECTABLE" : course.isVisible ? "not selectable" : "not listed"}</li>`,
+    )
+    .join("\n      ");
+
+  return `<div class="card">
+    <h2><a href="/accounts/${status.id}${query}">${escapeHtml(status.id)}</a> <small>(${status.state})</small></h2>
+    <p>
+      <strong>Last check:</strong> ${when(status.lastCheck?.finishedAt)}
+      ${status.lastCheck ? (status.lastCheck.ok ? '<span class="yes">ok</span>' : '<span class="no">failed</span>') : ""}<br>
+      <strong>Last successful check:</strong> ${when(status.lastSuccessAt)}<br>
+      <strong>Next check:</strong> ${when(status.nextRun?.at)}${status.nextRun ? ` (${escapeHtml(status.nextRun.reason)})` : ""}<br>
+      <strong>CAPTCHAs (7 days):</strong> ${status.captcha.solved}/${status.captcha.attempts} solved (${status.captcha.rate})<br>
+      <strong>Logins (7 days):</strong> ${status.logins.succeeded}/${status.logins.attempts} succeeded (${status.logins.rate})
+    </p>
+    <ul>
+      ${watched || "<li>No watched courses in the last scrape</li>"}
+    </ul>
+    ${renderCheckButton(status, query)}
+  </div>`;
+}
+
+function renderOverview(statuses: AccountStatus[], query: string) {
+  return renderLayout(
+    "PEC Course Monitor",
+    `<h1>🎯 PEC Course Monitor</h1>\n${statuses.map((status) => renderSummary(status, query)).join("\n")}`,
+  );
+}
+
+function renderAccount(status: AccountStatus, query: string) {
+  const watchedCodes = new Set(status.watched.map((course) => course.courseCode));
+  const courses = status.courses
+    .map(
+      (course) => `<tr${watchedCodes.has(course.courseCode) ? ' style="background: #fff8d0;"' : ""}>
+        <td>${escapeHtml(course.courseCode)}</td>
+        <td>${escapeHtml(course.courseName)}</td>
+        <td class="${course.isSelectable ? "yes" : "no"}">${course.isSelectable ? "YES" : "NO"}</td>
+        <td>${escapeHtml(course.checkboxState)}</td>
+        <td>${course.seatsAvailable === null ? "-" : `${course.seatsAvailable}${course.seatsTotal !== null ? `/${course.seatsTotal}` : ""}`}</td>
+      </tr>`,
+    )
+    .join("\n      ");
+  const errors = status.recentErrors
+    .map((error) => `<li>${when(error.at)}: ${escapeHtml(error.error)}</li>`)
+    .join("\n      ");
+
+  return renderLayout(
+    `PEC Course Monitor - ${status.id}`,
+    `<p><a href="/${query}">← All accounts</a></p>
+  ${renderSummary(status, query)}
+
+  <h3>All courses (scraped ${when(status.snapshotAt)})</h3>
+  <table>
+    <thead><tr><th>Code</th><th>Name</th><th>Selectable</th><th>Checkbox</th><th>Seats</th></tr></thead>
+    <tbody>
+      ${courses || '<tr><td colspan="5">Nothing scraped yet</td></tr>'}
+    </tbody>
+  </table>
+
+  <h3>Recent errors</h3>
+  <ul>
+      ${errors || "<li>None 🎉</li>"}
+  </ul>
+
+  <h3>Latest page</h3>
+  ${
+    status.screenshot
+      ? `<p>Taken ${when(status.screenshot.takenAt)} on ${escapeHtml(status.screenshot.url)}</p>
+  <img src="/accounts/${status.id}/screenshot.png${query}" alt="Latest page" style="max-width: 100%; border: 1px solid #ccc;">`
+      : "<p>No screenshot yet</p>"
+  }`,
+  );
+}
+
+/**
+ * Whether a request came from one of the dashboard's own pages. Browsers send
+ * an Origin with every cross-site POST; scripts (curl, Home Assistant...)
+ * usually send none, and are let through.
+ */
+function isSameOrigin(req: http.IncomingMessage) {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start the dashboard (once per run). It listens on DASHBOARD_HOST (default:
+ * 127.0.0.1) and DASHBOARD_PORT (default: 4021). With DASHBOARD_TOKEN set,
+ * every request needs it, as `?token=` or an `Authorization: Bearer` header.
+ * Without it, POSTs from a browser must come from the dashboard's own pages.
+ * Prometheus metrics are served at /metrics.
+ * @returns The dashboard URL
+ */
+export async function startDashboard(): Promise<string> {
+  if (server) throw new Error("The dashboard is already running");
+  const token = process.env.DASHBOARD_TOKEN || "";
+  const query = token ? `?token=${encodeURIComponent(token)}` : "";
+
+  server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const send = (status: number, body: string | Buffer, contentType = "text/html; charset=utf-8") => {
+      res.writeHead(status, { "Content-Type": contentType, "Cache-Control": "no-store" });
+      res.end(body);
+    };
+    const sendJson = (status: number, body: unknown) => send(status, JSON.stringify(body, null, 2), "application/json");
+
+    if (token && url.searchParams.get("token") !== token && req.headers.authorization !== `Bearer ${token}`) {
+      return send(403, "Forbidden", "text/plain");
+    }
+    // Nothing else stops another site from posting "check now" through the browser
+    if (!token && req.method === "POST" && !isSameOrigin(req)) {
+      return send(403, "Cross-site request refused, set DASHBOARD_TOKEN to post from elsewhere", "text/plain");
+    }
+
+    try {
+      if (req.method === "GET" && url.pathname === "/metrics") {
+        return send(200, renderMetrics(), "text/plain; version=0.0.4; charset=utf-8");
+      }
+
+      if (req.method === "GET" && (url.pathname === "/" || url.pathname === "/api/status")) {
+        const statuses = (await Promise.all([...accounts.keys()].map(collectAccountStatus))) as AccountStatus[];
+        return url.pathname === "/" ? send(200, renderOverview(statuses, query)) : sendJson(200, { accounts: statuses });
+      }
+
+      const route = url.pathname.match(/^(\/api)?\/accounts\/([\w-]+)(\/check|\/screenshot\.png)?$/);
+      if (!route || !accounts.has(route[2])) return send(404, "Not found", "text/plain");
+      const [, api, id, action] = route;
+
+      if (req.method === "POST" && action === "/check") {
+        const result = requestCheck(id);
+        if (api) return sendJson(result === "requested" ? 202 : 409, { result });
+        res.writeHead(303, { Location: `/accounts/${id}${query}` });
+        return res.end();
+      }
+
+      if (req.method === "GET" && action === "/screenshot.png" && !api) {
+        const screenshot = accounts.get(id)!.screenshot;
+        return screenshot ? send(200, screenshot.image, "image/png") : send(404, "No screenshot yet", "text/plain");
+      }
+
+      if (req.method === "GET" && !action) {
+        const status = (await collectAccountStatus(id))!;
+        return api ? sendJson(200, status) : send(200, renderAccount(status, query));
+      }
+      send(404, "Not found", "text/plain");
+    } catch (error: any) {
+      send(500, `Error: ${error.message}`, "text/plain");
+    }
+  });
+
+  const host = process.env.DASHBOARD_HOST || "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server!.once("error", reject);
+    server!.listen(process.env.DASHBOARD_PORT ? Number(process.env.DASHBOARD_PORT) : 4021, host, resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  return `http://${host}:${port}/${query}`;
+}
+
+export async function stopDashboard() {
+  if (!server) return;
+  const closing = server;
+  server = null;
+  closing.closeAllConnections();
+  await new Promise((resolve) => closing.close(resolve));
+}
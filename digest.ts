@@ -0,0 +1,419 @@
+import fs from "fs/promises";
+import chalk from "chalk";
+import { diffCourses, getChangedCourse } from "./changes.js";
+import { CheckRecord, HistoryRecord, LoginSummary, readChecks, readHistory, summarizeLogins } from "./history.js";
+import { Notifier } from "./notifiers/notifier.js";
+import { deliver, NotificationPolicy } from "./notifiers/policy.js";
+import { loadTemplateSet, renderTemplate } from "./report.js";
+import { announce, formatDuration, getDataPath, getScopeLabel, writeFileAtomic } from "./utils.js";
+import { describeWatchedCourse, matchWatchedCourses, WatchedCourse } from "./watchlist.js";
+
+export type DigestPeriod = "daily" | "weekly";
+
+export type DigestOptions = {
+  period: DigestPeriod;
+  time: string; // "08:00", local time
+  day: number; // weekly digests: 0 = Sunday ... 6 = Saturday
+  channels: string[]; // notifier names, e.g. "email"
+};
+
+export type CourseState = "selectable" | "not selectable" | "not listed";
+
+/**
+ * Everything that happened over one digest period
+ */
+export type Digest = {
+  account: string | null;
+  period: DigestPeriod;
+  from: Date;
+  to: Date;
+  checks: { total: number; ok: number; failed: number; sessionReused: number };
+  logins: LoginSummary["logins"];
+  captcha: LoginSummary["captcha"];
+  watched: {
+    course: string;
+    courseName: string;
+    // The state at the start of the period, then every change
+    timeline: { at: string; state: CourseState }[];
+    selectableMs: number;
+  }[];
+  tableChanges: { at: string; type: "added" | "removed"; courseCode: string; courseName: string }[];
+};
+
+const PERIOD_MS: Record<DigestPeriod, number> = { daily: 86_400_000, weekly: 7 * 86_400_000 };
+
+const STATE_FILE = "digest-state.json";
+
+export const DIGEST_TEMPLATE_FILES = {
+  subject: "digest_subject.txt",
+  text: "digest.txt",
+  html: "digest.html",
+} as const;
+
+export const DEFAULT_DIGEST_TEMPLATES: Record<keyof typeof DIGEST_TEMPLATE_FILES, string> = {
+  subject: `PEC Course Monitor - {{title}}: {{headline}}{{#account}} ({{account}}){{/account}}`,
+
+  text: `{{title}} for {{from}} - {{to}}
+
+Checks: {{checks.total}} ({{checks.ok}} ok, {{checks.failed}} failed, {{checks.sessionReused}} reused the session)
+Logins: {{logins.succeeded}}/{{logins.attempts}} succeeded ({{logins.rate}})
+{{#logins.failures}}
+- {{reason}}: {{count}}
+{{/logins.failures}}
+CAPTCHAs: {{captcha.solved}}/{{captcha.attempts}} solved ({{captcha.rate}})
+{{#hasWatched}}
+
+Watchlist:
+{{#watched}}
+- {{course}} {{courseName}}: selectable for {{selectableFor}}
+{{#timeline}}
+    {{at}}: {{state}}
+{{/timeline}}
+{{/watched}}
+{{/hasWatched}}
+{{#hasTableChanges}}
+
+Add/Drop table:
+{{#tableChanges}}
+- {{at}}: {{courseCode}} {{courseName}} {{type}}
+{{/tableChanges}}
+{{/hasTableChanges}}
+`,
+
+  html: `<h2>📊 PEC Course Monitor {{title}}</h2>
+<p><strong>Period:</strong> {{from}} - {{to}}</p>
+
+<h3>Checks</h3>
+<ul>
+  <li><strong>Checks run:</strong> {{checks.total}} ({{checks.ok}} ok, {{checks.failed}} failed)</li>
+  <li><strong>Saved session reused:</strong> {{checks.sessionReused}}</li>
+  <li><strong>Logins:</strong> {{logins.succeeded}}/{{logins.attempts}} succeeded ({{logins.rate}})</li>
+  <li><strong>CAPTCHAs:</strong> {{captcha.solved}}/{{captcha.attempts}} solved ({{captcha.rate}})</li>
+</ul>
+{{#logins.failures}}
+<p style="color: #b00;">Login failures - {{reason}}: {{count}}</p>
+{{/logins.failures}}
+
+{{#watched}}
+<h3>🎯 {{course}} {{courseName}}</h3>
+<p>Selectable for {{selectableFor}}</p>
+<table border="1" style="border-collapse: collapse;">
+{{#timeline}}
+  <tr>
+    <td style="padding: 4px;">{{at}}</td>
+    <td style="padding: 4px; color: {{#isSelectable}}green{{/isSelectable}}{{^isSelectable}}red{{/isSelectable}};">{{state}}</td>
+  </tr>
+{{/timeline}}
+</table>
+{{/watched}}
+
+{{#hasTableChanges}}
+<h3>Add/Drop table changes</h3>
+<ul>
+{{#tableChanges}}
+  <li>{{at}}: <strong>{{courseCode}}</strong> {{courseName}} {{type}}</li>
+{{/tableChanges}}
+</ul>
+{{/hasTableChanges}}
+
+<p><em>This is an automated digest from your PEC Course Monitor Scout.</em></p>
+`,
+};
+
+function stateOf(record: HistoryRecord, watched: WatchedCourse): CourseState {
+  const [status] = matchWatchedCourses(record.courses, [watched]);
+  if (!status.isVisible) return "not listed";
+  return status.isSelectable ? "selectable" : "not selectable";
+}
+
+/**
+ * Aggregate the check log and course history over one period
+ * @param checks - The check outcomes (only those in the period are counted)
+ * @param history - The scraped course tables, oldest first; the last one
+ * before the period gives every course's starting state
+ * @param watchlist - The courses to draw a timeline for
+ * @returns The digest
+ */
+export function buildDigest({
+  period,
+  to,
+  checks,
+  history,
+  watchlist,
+  account = null,
+}: {
+  period: DigestPeriod;
+  to: Date;
+  checks: CheckRecord[];
+  history: HistoryRecord[];
+  watchlist: WatchedCourse[];
+  account?: string | null;
+}): Digest {
+  const from = new Date(to.getTime() - PERIOD_MS[period]);
+  const inPeriod = (at: string) => Date.parse(at) >= from.getTime() && Date.parse(at) < to.getTime();
+
+  const counted = checks.filter((check) => inPeriod(check.startedAt));
+
+  const baseline = history.filter((record) => Date.parse(record.checkedAt) < from.getTime()).at(-1);
+  const records = history.filter((record) => inPeriod(record.checkedAt));
+  const lastCheckedAt = records.at(-1)?.checkedAt;
+
+  const watched = watchlist.map((course) => {
+    const timeline: Digest["watched"][number]["timeline"] = [];
+    if (baseline) timeline.push({ at: from.toISOString(), state: stateOf(baseline, course) });
+    for (const record of records) {
+      const state = stateOf(record, course);
+      if (timeline.at(-1)?.state !== state) timeline.push({ at: record.checkedAt, state });
+    }
+
+    // Open windows last until the next change, or the last check for one still open
+    let selectableMs = 0;
+    timeline.forEach((entry, i) => {
+      if (entry.state !== "selectable") return;
+      const end = timeline[i + 1]?.at ?? lastCheckedAt ?? entry.at;
+      selectableMs += Math.max(0, Date.parse(end) - Date.parse(entry.at));
+    });
+
+    const row = [...records, ...(baseline ? [baseline] : [])]
+      .map((record) => matchWatchedCourses(record.courses, [course])[0])
+      .find((status) => status.isVisible);
+    return { course: describeWatchedCourse(course), courseName: row?.courseName ?? "", timeline, selectableMs };
+  });
+
+  const tableChanges: Digest["tableChanges"] = [];
+  let previous = baseline;
+  for (const record of records) {
+    if (previous) {
+      for (const change of diffCourses(previous.courses, record.courses)) {
+        if (change.type !== "added" && change.type !== "removed") continue;
+        const course = getChangedCourse(change);
+        tableChanges.push({ at: record.checkedAt, type: change.type, courseCode: course.courseCode, courseName: course.courseName });
+      }
+    }
+    previous = record;
+  }
+
+  return {
+    account,
+    period,
+    from,
+    to,
+    checks: {
+      total: counted.length,
+      ok: counted.filter((check) => check.ok).length,
+      failed: counted.filter((check) => !check.ok).length,
+      sessionReused: counted.filter((check) => check.sessionReused).length,
+    },
+    ...summarizeLogins(counted),
+    watched,
+    tableChanges,
+  };
+}
+
+/**
+ * Read the current scope's check log and history and aggregate the period
+ * ending now
+ */
+export async function collectDigest(period: DigestPeriod, watchlist: WatchedCourse[], to = new Date()): Promise<Digest> {
+  const from = to.getTime() - PERIOD_MS[period];
+
+  const checks: CheckRecord[] = [];
+  for await (const check of readChecks()) {
+    if (Date.parse(check.startedAt) >= from) checks.push(check);
+  }
+
+  // Keep only the last table before the period, as the starting point
+  const history: HistoryRecord[] = [];
+  for await (const record of readHistory()) {
+    if (Date.parse(record.checkedAt) < from) history.length = 0;
+    history.push(record);
+  }
+
+  return buildDigest({ period, to, checks, history, watchlist, account: getScopeLabel() ?? null });
+}
+
+export const percent = (part: number, whole: number) => (whole ? `${Math.round((part / whole) * 100)}%` : "n/a");
+
+/**
+ * Sum up the period in one line, e.g. "CS6701 was selectable for 2h 5m"
+ */
+export function buildDigestHeadline(digest: Digest): string {
+  const opened = digest.watched.filter((course) => course.timeline.some((entry) => entry.state === "selectable"));
+  if (opened.length) {
+    return opened.map((course) => `${course.course} was selectable for ${formatDuration(course.selectableMs)}`).join(", ");
+  }
+  return `${digest.checks.total} check(s), no watched course was selectable`;
+}
+
+/**
+ * Flatten the digest into the values templates can use
+ */
+export function buildDigestView(digest: Digest) {
+  return {
+    title: digest.period === "daily" ? "Daily digest" : "Weekly digest",
+    headline: buildDigestHeadline(digest),
+    account: digest.account,
+    from: digest.from.toLocaleString(),
+    to: digest.to.toLocaleString(),
+    checks: digest.checks,
+    logins: {
+      ...digest.logins,
+      rate: percent(digest.logins.succeeded, digest.logins.attempts),
+      failures: Object.entries(digest.logins.failures).map(([reason, count]) => ({ reason: reason.replace("_", " "), count })),
+    },
+    captcha: { ...digest.captcha, rate: percent(digest.captcha.solved, digest.captcha.attempts) },
+    hasWatched: digest.watched.length > 0,
+    watched: digest.watched.map((course) => ({
+      ...course,
+      selectableFor: formatDuration(course.selectableMs),
+      timeline: course.timeline.map((entry) => ({
+        at: new Date(entry.at).toLocaleString(),
+        state: entry.state,
+        isSelectable: entry.state === "selectable",
+      })),
+    })),
+    hasTableChanges: digest.tableChanges.length > 0,
+    tableChanges: digest.tableChanges.map((change) => ({ ...change, at: new Date(change.at).toLocaleString() })),
+  };
+}
+
+/**
+ * Render a digest from the digest templates (digest_subject.txt, digest.txt
+ * and digest.html in REPORT_TEMPLATES_DIR replace the built-in ones)
+ * @returns The subject, plain text and HTML
+ */
+export async function renderDigest(digest: Digest) {
+  const templates = await loadTemplateSet(DIGEST_TEMPLATE_FILES, DEFAULT_DIGEST_TEMPLATES);
+  const view = buildDigestView(digest);
+  return {
+    subject: renderTemplate(templates.subject, view, "subject").trim(),
+    text: renderTemplate(templates.text, view, "text").trim(),
+    html: renderTemplate(templates.html, view, "html"),
+  };
+}
+
+/**
+ * Read the digest settings from env. Digests are off unless DIGEST is daily
+ * or weekly; they go out at DIGEST_TIME (default 08:00), weekly ones on
+ * DIGEST_DAY (default 1, Monday), through DIGEST_CHANNELS (default: email).
+ * @returns The options, or null if digests are disabled
+ */
+export function getDigestOptions(): DigestOptions | null {
+  const period = process.env.DIGEST;
+  if (period !== "daily" && period !== "weekly") return null;
+
+  const time = process.env.DIGEST_TIME || "08:00";
+  if (!/^\d{2}:\d{2}$/.test(time)) throw new Error(`DIGEST_TIME should look like 08:00, got "${time}"`);
+  const day = Number(process.env.DIGEST_DAY ?? 1);
+  if (!Number.isInteger(day) || day < 0 || day > 6) throw new Error(`DIGEST_DAY should be 0 (Sunday) to 6, got "${process.env.DIGEST_DAY}"`);
+
+  return {
+    period,
+    time,
+    day,
+    channels: getDigestChannels(),
+  };
+}
+
+function getDigestChannels() {
+  return (process.env.DIGEST_CHANNELS || "email").split(",").map((channel) => channel.trim()).filter(Boolean);
+}
+
+/**
+ * The most recent moment a digest was scheduled for, at or before `now`
+ */
+export function lastDigestDue(options: DigestOptions, now = new Date()): Date {
+  const [hours, minutes] = options.time.split(":").map(Number);
+  const due = new Date(now);
+  due.setHours(hours, minutes, 0, 0);
+  if (due > now) due.setDate(due.getDate() - 1);
+  if (options.period === "weekly") {
+    due.setDate(due.getDate() - ((due.getDay() - options.day + 7) % 7));
+  }
+  return due;
+}
+
+/**
+ * Send a digest through the notifiers named in `channels`
+ * @returns One result per notifier used
+ */
+export async function sendDigest(digest: Digest, notifiers: Notifier[], policy: NotificationPolicy, channels: string[]) {
+  const targets = notifiers.filter((notifier) => channels.includes(notifier.name));
+  if (targets.length === 0) {
+    console.log(chalk.yellow(`⚠️ No notifier configured for the digest (channels: ${channels.join(", ")})`));
+    return [];
+  }
+  return deliver(targets, await renderDigest(digest), policy);
+}
+
+/**
+ * Send the scheduled digest if it's due. The first run only remembers when it
+ * started, so the first digest goes out at the next scheduled time rather than
+ * on startup.
+ * @param notifiers - The account's notifiers
+ * @param policy - The notification policy (digests are never urgent)
+ * @param watchlist - The courses to draw timelines for
+ * @returns Whether a digest went out
+ */
+export async function maybeSendDigest(notifiers: Notifier[], policy: NotificationPolicy, watchlist: WatchedCourse[]) {
+  const options = getDigestOptions();
+  if (!options) return false;
+
+  const file = await getDataPath(STATE_FILE);
+  let lastSentAt: string | null = null;
+  try {
+    lastSentAt = JSON.parse(await fs.readFile(file, "utf-8")).lastSentAt ?? null;
+  } catch {
+    // Never sent
+  }
+
+  const now = new Date();
+  const save = () => writeFileAtomic(file, JSON.stringify({ lastSentAt: now.toISOString() }, null, 2));
+  if (!lastSentAt) {
+    await save();
+    return false;
+  }
+  if (new Date(lastSentAt) >= lastDigestDue(options, now)) return false;
+
+  const digest = await collectDigest(options.period, watchlist, now);
+  // Failed sends wait in the outbox, so don't build the digest again
+  await sendDigest(digest, notifiers, policy, options.channels);
+  await save();
+  announce(`📊 ${options.period === "daily" ? "Daily" : "Weekly"} digest: ${buildDigestHeadline(digest)}`, "Digest");
+  return true;
+}
+
+export const DIGEST_USAGE =
+  `Usage: pnpm digest [daily|weekly] [--send]\n\n` +
+  `  daily | weekly       The period to sum up (default: DIGEST, else daily)\n` +
+  `  --send               Send it through DIGEST_CHANNELS instead of printing it\n\n` +
+  `  --account <ID>       Use another account's history (see accounts.json)`;
+
+/**
+ * Entry point for `pnpm digest ...`
+ * @param args - The CLI arguments after "digest"
+ * @param context - The account's notifiers, policy and watchlist
+ */
+export async function runDigestCommand(
+  args: string[],
+  { notifiers, policy, watchlist }: { notifiers: Notifier[]; policy: NotificationPolicy; watchlist: WatchedCourse[] },
+) {
+  const send = args.includes("--send");
+  const rest = args.filter((arg) => arg !== "--send");
+  const period = rest[0] ?? (process.env.DIGEST === "weekly" ? "weekly" : "daily");
+  if ((period !== "daily" && period !== "weekly") || rest.length > 1) {
+    console.log(DIGEST_USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const digest = await collectDigest(period, watchlist);
+  if (!send) {
+    const { subject, text } = await renderDigest(digest);
+    announce(text, subject);
+    return;
+  }
+
+  const results = await sendDigest(digest, notifiers, policy, getDigestChannels());
+  if (results.length === 0 || results.some((result) => result.status === "failed")) process.exitCode = 1;
+}
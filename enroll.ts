@@ -0,0 +1,219 @@
+import { Page, Stagehand } from "@browserbasehq/stagehand";
+import fs from "fs/promises";
+import { checkWatchedCourses, describeWatchedCourse, WatchedCourse, WatchedCourseStatus } from "./watchlist.js";
+import { Navigator } from "./navigator.js";
+import { getDataPath, writeFileAtomic } from "./utils.js";
+
+export type EnrollOptions = {
+  dryRun: boolean;
+  maxAttempts: number;
+};
+
+export type EnrollOutcome =
+  | "enrolled"
+  | "dry_run"
+  | "dry_run_reported" // the dry-run notice already went out for this course
+  | "not_confirmed"
+  | "failed"
+  | "attempts_exhausted";
+
+export type EnrollResult = {
+  courseCode: string;
+  outcome: EnrollOutcome;
+  attempt: number;
+  message: string;
+  screenshotPath?: string;
+  screenshot?: Buffer;
+};
+
+const ATTEMPTS_FILE = "enroll-attempts.json";
+
+/**
+ * Read the auto-enroll settings from env. Auto-enroll is off unless
+ * AUTO_ENROLL=true, and ticks nothing (only reports) unless
+ * AUTO_ENROLL_DRY_RUN=false too.
+ * @returns The options, or null if auto-enroll is disabled
+ */
+export function getEnrollOptions(): EnrollOptions | null {
+  if (process.env.AUTO_ENROLL !== "true") return null;
+  return {
+    dryRun: process.env.AUTO_ENROLL_DRY_RUN !== "false",
+    maxAttempts: Number(process.env.AUTO_ENROLL_MAX_ATTEMPTS) || 3,
+  };
+}
+
+/**
+ * Pick the watched courses auto-enroll should act on: selectable, not yet
+ * ticked, and not opted out with `"autoEnroll": false`
+ */
+export function getEnrollCandidates(statuses: WatchedCourseStatus[]): WatchedCourseStatus[] {
+  return statuses.filter(
+    (status) => status.autoEnroll !== false && status.isSelectable && status.checkboxState === "unchecked",
+  );
+}
+
+/**
+ * Attempt counters, keyed by course code (or swap rule), shared by
+ * auto-enroll and swaps so both respect AUTO_ENROLL_MAX_ATTEMPTS
+ */
+export async function readAttempts(): Promise<Record<string, number>> {
+  try {
+    return JSON.parse(await fs.readFile(await getDataPath(ATTEMPTS_FILE), "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+export async function writeAttempts(attempts: Record<string, number>) {
+  await writeFileAtomic(await getDataPath(ATTEMPTS_FILE), JSON.stringify(attempts, null, 2));
+}
+
+/**
+ * Mark the dry run for a course (or swap rule) as reported, in the attempts
+ * file, so its notice and screenshot go out once instead of on every check
+ * @returns Whether it had already been reported
+ */
+export async function markDryRunReported(attempts: Record<string, number>, key: string): Promise<boolean> {
+  const dryRunKey = `dry-run:${key}`;
+  if (attempts[dryRunKey]) return true;
+  attempts[dryRunKey] = 1;
+  await writeAttempts(attempts);
+  return false;
+}
+
+/**
+ * Locate the checkbox of a watched course's row in the Add/Drop table. Rows
+ * that contain nested rows are skipped so we always hit the innermost row.
+ */
+export function courseCheckbox(page: Page, course: WatchedCourse) {
+  let row = page
+    .locator("tr")
+    .filter({ has: page.locator("td", { hasText: course.courseCode }) })
+    .filter({ hasNot: page.locator("tr") });
+  if (course.section) {
+    row = row.filter({ has: page.locator("td").getByText(course.section, { exact: true }) });
+  }
+  if (course.slot) {
+    row = row.filter({ has: page.locator("td").getByText(course.slot, { exact: true }) });
+  }
+  return row.first().locator('input[type="checkbox"]');
+}
+
+/**
+ * Submit the Add/Drop form, accepting the portal's "are you sure" dialog if
+ * it shows one, and wait for the course table to come back
+ */
+export async function submitAddDropForm(page: Page, navigator: Navigator) {
+  page.once("dialog", (dialog) => dialog.accept().catch(() => {}));
+  // Listen before clicking, or a fast postback is over before we wait for it
+  await Promise.all([
+    page.waitForNavigation({ waitUntil: "domcontentloaded", timeout: 30_000 }),
+    navigator.run("submitAddDrop"),
+  ]);
+  await page.waitForSelector('input[type="checkbox"]', { timeout: 15_000 });
+}
+
+export async function takeScreenshot(page: Page, label: string) {
+  const screenshot = await page.screenshot({ fullPage: true });
+  const screenshotPath = await getDataPath(`enroll-${label}-${Date.now()}.png`);
+  await fs.writeFile(screenshotPath, screenshot);
+  return { screenshot, screenshotPath };
+}
+
+/**
+ * Tick a watched course on the Add/Drop page, submit the form, and confirm by
+ * re-scraping that the course is now checked. Each call counts against the
+ * course's attempt budget (persisted across restarts); a confirmed enrollment
+ * resets it.
+ * @param page - The page showing the Add/Drop course table
+ * @param stagehand - Used for logging
+ * @param navigator - Clicks the form's save button
+ * @param course - The selectable course to enroll in
+ * @param options - Dry-run flag and attempt budget
+ * @returns What happened, with a screenshot of the final page when one was taken
+ */
+export async function enrollInCourse(
+  page: Page,
+  stagehand: Stagehand,
+  navigator: Navigator,
+  course: WatchedCourseStatus,
+  options: EnrollOptions,
+): Promise<EnrollResult> {
+  const label = describeWatchedCourse(course);
+  const attempts = await readAttempts();
+  const attempt = (attempts[course.courseCode] ?? 0) + 1;
+
+  if (attempt > options.maxAttempts) {
+    return {
+      courseCode: course.courseCode,
+      outcome: "attempts_exhausted",
+      attempt: attempt - 1,
+      message: `Skipping ${label}: already tried ${options.maxAttempts} time(s)`,
+    };
+  }
+
+  if (options.dryRun) {
+    if (await markDryRunReported(attempts, course.courseCode)) {
+      return {
+        courseCode: course.courseCode,
+        outcome: "dry_run_reported",
+        attempt,
+        message: `[dry run] ${label} is still selectable - already reported`,
+      };
+    }
+    stagehand.log({ category: "enroll", message: `[dry run] Would tick ${label} and submit the Add/Drop form` });
+    return {
+      courseCode: course.courseCode,
+      outcome: "dry_run",
+      attempt,
+      message: `[dry run] ${label} is selectable - would have ticked it and submitted the form`,
+      ...(await takeScreenshot(page, course.courseCode)),
+    };
+  }
+
+  attempts[course.courseCode] = attempt;
+  await writeAttempts(attempts);
+
+  try {
+    stagehand.log({ category: "enroll", message: `Ticking ${label} (attempt ${attempt}/${options.maxAttempts})` });
+    await courseCheckbox(page, course).check({ timeout: 10_000 });
+
+    stagehand.log({ category: "enroll", message: "Submitting the Add/Drop form" });
+    await submitAddDropForm(page, navigator);
+
+    // Confirm by re-scraping rather than trusting the click
+    const [after] = await checkWatchedCourses(page, [course]);
+    const { screenshot, screenshotPath } = await takeScreenshot(page, course.courseCode);
+
+    if (after.checkboxState === "checked") {
+      delete attempts[course.courseCode];
+      await writeAttempts(attempts);
+      return {
+        courseCode: course.courseCode,
+        outcome: "enrolled",
+        attempt,
+        message: `Enrolled in ${label} ${course.courseName}`,
+        screenshot,
+        screenshotPath,
+      };
+    }
+
+    return {
+      courseCode: course.courseCode,
+      outcome: "not_confirmed",
+      attempt,
+      message: `Submitted ${label} but the page shows it as ${after.checkboxState.toUpperCase()} afterwards`,
+      screenshot,
+      screenshotPath,
+    };
+  } catch (error: any) {
+    const shot = await takeScreenshot(page, course.courseCode).catch(() => undefined);
+    return {
+      courseCode: course.courseCode,
+      outcome: "failed",
+      attempt,
+      message: `Failed to enroll in ${label}: ${error.message}`,
+      ...shot,
+    };
+  }
+}
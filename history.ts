@@ -0,0 +1,267 @@
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import readline from "readline";
+import chalk from "chalk";
+import type { CourseRow } from "./courses.js";
+import type { LoginOutcome } from "./login.js";
+import { announce, formatDuration, getDataPath } from "./utils.js";
+
+/**
+ * One line of history.jsonl: every course row scraped by a single check
+ */
+export type HistoryRecord = {
+  checkedAt: string;
+  courses: CourseRow[];
+};
+
+export type OpenWindow = {
+  courseCode: string;
+  openedAt: string;
+  closedAt: string | null; // null while the course is still selectable
+  durationMs: number;
+};
+
+/**
+ * One line of checks.jsonl: how a check went, whether or not it got as far
+ * as the course table
+ */
+export type CheckRecord = {
+  startedAt: string;
+  finishedAt: string;
+  ok: boolean;
+  error?: string;
+  sessionReused: boolean;
+  // One per submitted login attempt; empty when the session was reused
+  loginOutcomes: LoginOutcome[];
+};
+
+export type LoginSummary = {
+  logins: { attempts: number; succeeded: number; failures: Partial<Record<LoginOutcome, number>> };
+  captcha: { attempts: number; solved: number };
+};
+
+const HISTORY_FILE = "history.jsonl";
+const CHECKS_FILE = "checks.jsonl";
+
+/**
+ * Append a check to the history store. The file is append-only JSONL so a
+ * crash can at worst lose the last line, never earlier checks.
+ * @param courses - The courses scraped by this check
+ * @param checkedAt - When the check ran
+ */
+export async function appendHistory(courses: CourseRow[], checkedAt = new Date()) {
+  const record: HistoryRecord = { checkedAt: checkedAt.toISOString(), courses };
+  await fs.appendFile(await getDataPath(HISTORY_FILE), JSON.stringify(record) + "\n");
+}
+
+/**
+ * Record how a check went, in checks.jsonl next to the history store
+ * @param record - The check's outcome
+ */
+export async function appendCheck(record: CheckRecord) {
+  await fs.appendFile(await getDataPath(CHECKS_FILE), JSON.stringify(record) + "\n");
+}
+
+async function* readJsonl<T>(name: string): AsyncGenerator<T> {
+  const file = await getDataPath(name);
+  try {
+    await fs.access(file);
+  } catch {
+    return;
+  }
+
+  const lines = readline.createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line);
+    } catch {
+      // Skip corrupt lines
+    }
+  }
+}
+
+/**
+ * Stream every record from the history store, oldest first. Lines that fail to
+ * parse (e.g. a write cut short by a crash) are skipped.
+ */
+export function readHistory(): AsyncGenerator<HistoryRecord> {
+  return readJsonl<HistoryRecord>(HISTORY_FILE);
+}
+
+/**
+ * Stream every check outcome, oldest first
+ */
+export function readChecks(): AsyncGenerator<CheckRecord> {
+  return readJsonl<CheckRecord>(CHECKS_FILE);
+}
+
+/**
+ * Count login attempts and CAPTCHA answers across checks
+ * @param checks - The checks to count
+ * @returns The login and CAPTCHA totals
+ */
+export function summarizeLogins(checks: CheckRecord[]): LoginSummary {
+  const outcomes = checks.flatMap((check) => check.loginOutcomes);
+  const failures: LoginSummary["logins"]["failures"] = {};
+  for (const outcome of outcomes) {
+    if (outcome !== "success") failures[outcome] = (failures[outcome] ?? 0) + 1;
+  }
+  // The portal only says whether the CAPTCHA was right when it rejects it, or
+  // when it goes on to judge the password
+  const captchaAttempts = outcomes.filter(
+    (outcome) => outcome === "success" || outcome === "wrong_captcha" || outcome === "wrong_credentials",
+  );
+
+  return {
+    logins: { attempts: outcomes.length, succeeded: outcomes.filter((outcome) => outcome === "success").length, failures },
+    captcha: { attempts: captchaAttempts.length, solved: captchaAttempts.filter((outcome) => outcome !== "wrong_captcha").length },
+  };
+}
+
+/**
+ * Find the most recent check in which a course was selectable
+ * @param courseCode - The course to look up
+ * @returns The timestamp of that check, or null if it never was
+ */
+export async function findLastSelectable(courseCode: string): Promise<string | null> {
+  let lastSelectable: string | null = null;
+  for await (const record of readHistory()) {
+    // Any section being selectable counts
+    if (record.courses.some((c) => c.courseCode === courseCode && c.isSelectable)) lastSelectable = record.checkedAt;
+  }
+  return lastSelectable;
+}
+
+/**
+ * Work out the periods during which each course stayed selectable. A window
+ * opens at the first check that saw the course selectable and closes at the
+ * first later check that didn't (or that no longer listed the course).
+ * @param courseCode - Only compute windows for this course
+ * @returns The windows, oldest first
+ */
+export async function findOpenWindows(courseCode?: string): Promise<OpenWindow[]> {
+  const windows: OpenWindow[] = [];
+  const openSince = new Map<string, string>();
+  let lastCheckedAt: string | null = null;
+
+  for await (const record of readHistory()) {
+    const selectableNow = new Set(
+      record.courses
+        .filter((c) => c.isSelectable && (!courseCode || c.courseCode === courseCode))
+        .map((c) => c.courseCode),
+    );
+
+    for (const [code, openedAt] of openSince) {
+      if (!selectableNow.has(code)) {
+        windows.push({
+          courseCode: code,
+          openedAt,
+          closedAt: record.checkedAt,
+          durationMs: Date.parse(record.checkedAt) - Date.parse(openedAt),
+        });
+        openSince.delete(code);
+      }
+    }
+    for (const code of selectableNow) {
+      if (!openSince.has(code)) openSince.set(code, record.checkedAt);
+    }
+    lastCheckedAt = record.checkedAt;
+  }
+
+  for (const [code, openedAt] of openSince) {
+    windows.push({
+      courseCode: code,
+      openedAt,
+      closedAt: null,
+      durationMs: Date.parse(lastCheckedAt!) - Date.parse(openedAt),
+    });
+  }
+
+  return windows.sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+}
+
+const HISTORY_USAGE =
+  `Usage: pnpm history <command>\n\n` +
+  `  last-selectable <COURSE>   When was the course last selectable\n` +
+  `  open-windows [COURSE]      How long seats stayed open, per course\n` +
+  `  timeline <COURSE>          Every state change recorded for the course\n\n` +
+  `  --account <ID>             Read another account's history (see accounts.json)`;
+
+/**
+ * Entry point for `pnpm history ...`
+ * @param args - The CLI arguments after "history"
+ */
+export async function runHistoryCommand(args: string[]) {
+  const [command, rawCourseCode] = args;
+  const courseCode = rawCourseCode?.toUpperCase();
+
+  switch (command) {
+    case "last-selectable": {
+      if (!courseCode) break;
+      const lastSelectable = await findLastSelectable(courseCode);
+      announce(
+        lastSelectable
+          ? `${courseCode} was last selectable at ${chalk.green(new Date(lastSelectable).toLocaleString())}`
+          : `${courseCode} has ${chalk.red("never")} been seen selectable`,
+        "Course History",
+      );
+      return;
+    }
+
+    case "open-windows": {
+      const windows = await findOpenWindows(courseCode);
+      if (windows.length === 0) {
+        announce("No open seat windows recorded yet", "Course History");
+        return;
+      }
+
+      const byCourse = new Map<string, OpenWindow[]>();
+      for (const window of windows) {
+        byCourse.set(window.courseCode, [...(byCourse.get(window.courseCode) ?? []), window]);
+      }
+
+      announce(
+        Array.from(byCourse, ([code, courseWindows]) => {
+          const total = courseWindows.reduce((sum, w) => sum + w.durationMs, 0);
+          const longest = Math.max(...courseWindows.map((w) => w.durationMs));
+          return (
+            `${chalk.bold(code)}: ${courseWindows.length} window(s), open ${formatDuration(total)} in total, longest ${formatDuration(longest)}\n` +
+            courseWindows
+              .map(
+                (w) =>
+                  `  ${new Date(w.openedAt).toLocaleString()} → ` +
+                  (w.closedAt ? new Date(w.closedAt).toLocaleString() : chalk.green("still open")) +
+                  ` (${formatDuration(w.durationMs)})`,
+              )
+              .join("\n")
+          );
+        }).join("\n\n"),
+        "Seat Windows",
+      );
+      return;
+    }
+
+    case "timeline": {
+      if (!courseCode) break;
+      const lines: string[] = [];
+      let previousState: string | null = null;
+      for await (const record of readHistory()) {
+        const sections = record.courses.filter((c) => c.courseCode === courseCode);
+        const course = sections.find((c) => c.isSelectable) ?? sections[0];
+        const state = course
+          ? `${course.isSelectable ? chalk.green("SELECTABLE") : chalk.red("NOT SELECTABLE")}, ${course.checkboxState.toUpperCase()}`
+          : chalk.gray("NOT LISTED");
+        if (state !== previousState) {
+          lines.push(`${new Date(record.checkedAt).toLocaleString()}  ${state}`);
+          previousState = state;
+        }
+      }
+      announce(lines.length ? lines.join("\n") : "No checks recorded yet", `${courseCode} Timeline`);
+      return;
+    }
+  }
+
+  console.log(HISTORY_USAGE);
+  process.exitCode = 1;
+}
@@ -2,377 +2,281 @@ import { Stagehand, Page, BrowserContext } from "@browserbasehq/stagehand";
 import StagehandConfig from "./stagehand.config.js";
 import chalk from "chalk";
 import boxen from "boxen";
-import { drawObserveOverlay, clearOverlays, actWithCache, announce } from "./utils.js";
-import { z } from "zod";
-import readline from 'readline';
-import OpenAI from "openai";
-import { CustomOpenAIClient } from "./llm_clients/customOpenAI_client.js";
-
-// Email schema
-const emailReqSchema = z.object({
-  email: z.string(),
-  subject: z.string(),
-  body: z.string(),
-});
-
-type EmailReq = z.infer<typeof emailReqSchema>;
-
-// Email sending function
-async function sendEmail(input: EmailReq) {
-  const res = await fetch('https://api.resend.com/emails', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.RESEND_API_KEY}`,
-    },
-    body: JSON.stringify({
-      from: 'PEC Course Monitor <noreply@sarthakkapila.com>',
-      to: [input.email],
-      subject: input.subject,
-      html: input.body,
-    }),
-  });
-
-  if (res.ok) {
-    const data = await res.json();
-    console.log(chalk.green('✅ Email sent successfully'));
-    return data;
-  } else {
-    console.log(chalk.red('❌ Failed to send email'));
-    return null;
-  }
-}
-
-// Configuration
-const PEC_URL = "https://pec.edu.in";
-const USERNAME = process.env.USERNAME;
-const PASSWORD = process.env.PASSWORD;
-const CHECK_INTERVAL_MS = 60 * 60 * 1000; // Check every hour
-
-// Create readline interface for user input (as fallback)
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout
-});
-
-// Function to prompt user for CAPTCHA input (fallback method)
-function promptForCaptcha(): Promise<string> {
-  return new Promise((resolve) => {
-    rl.question(chalk.yellow.bold('\n🔍 Please enter the CAPTCHA text shown in the browser: '), (answer) => {
-      resolve(answer.trim());
-    });
-  });
-}
-
-// Helper to recognize CAPTCHA using LLM
-async function recognizeCaptchaWithLLM(imageBuffer: Buffer): Promise<string> {
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  const llm = new CustomOpenAIClient({ modelName: "gpt-4o", client: openai });
-
-  // Compose the message with text and image
-  const prompt =
-    "Look at the CAPTCHA image and tell me what characters are shown. The CAPTCHA should contain letters and/or numbers. Return ONLY the characters you see, nothing else. Be precise and accurate.";
-
-  const response = await llm.createChatCompletion({
-    options: {
-      messages: [
-        {
-          role: "user",
-          content: [
-            { type: "text", text: prompt },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/png;base64,${imageBuffer.toString("base64")}`,
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 20,
-      temperature: 0.1,
-    },
-    logger: () => {},
-  });
+import { announce, createLimiter, getScopeLabel, Limiter, runInScope } from "./utils.js";
+import { Notifier } from "./notifiers/notifier.js";
+import { loadNotificationPolicy, loadNotifiers } from "./notifiers/config.js";
+import { deliver, flushOutbox, NotificationPolicy, notificationPolicySchema } from "./notifiers/policy.js";
+import { loadSnapshot, saveSnapshot, diffCourses, describeChange, getChangedCourse } from "./changes.js";
+import { appendCheck, appendHistory, CheckRecord, runHistoryCommand } from "./history.js";
+import { scrapeCourses } from "./courses.js";
+import { enrollInCourse, getEnrollCandidates, getEnrollOptions } from "./enroll.js";
+import { describeSwapRule, executeSwap, isSwapReady, loadSwapRules } from "./swap.js";
+import { clearSession, detectSessionExpiry, isSessionReuseEnabled, restoreSession, saveSession } from "./session.js";
+import { describeNextRun, loadScheduleConfig, loadSchedulerState, NextRun, saveSchedulerState, Scheduler } from "./scheduler.js";
+import { installShutdownHandlers, isDaemonMode, isShutdownRequested, removePidFile, sleep, writePidFile } from "./daemon.js";
+import { loadWatchlist, checkWatchedCourses, describeWatchedCourse, sortWatchlist } from "./watchlist.js";
+import { Account, getAccountConcurrency, loadAccounts } from "./accounts.js";
+import { runVaultCommand } from "./vault.js";
+import { getFallbacksPath, loadNavigationConfig, Navigator } from "./navigator.js";
+import { runCacheCommand } from "./cache.js";
+import { terminateOcr } from "./captcha.js";
+import { runCaptchaCommand } from "./captcha_dataset.js";
+import { stopCaptchaServer } from "./captcha_human.js";
+import { closePrompt, login, LoginError, LoginOutcome } from "./login.js";
+import { escapeHtml, renderReport } from "./report.js";
+import { maybeSendDigest, runDigestCommand } from "./digest.js";
+import { recordCheck, recordCourses, recordLlmUsage } from "./metrics.js";
+import { checkNowSignal, isDashboardEnabled, registerAccount, startDashboard, stopDashboard, updateAccountStatus } from "./dashboard.js";
 
-  // Extract the text content from the response
-  const text = (response as any).data?.replace(/[^a-zA-Z0-9]/g, "") || "";
-  return text;
+/**
+ * From the logged-in dashboard, open the Add/Drop course table
+ */
+async function openAddDropPage({ stagehand, navigator }: { stagehand: Stagehand; navigator: Navigator }) {
+  // Step 7: Navigate to Add & Drop Courses
+  stagehand.log({ category: "navigation", message: "Navigating to Add & Drop Courses" });
+  await navigator.run("addDropMenu");
+
+  // Step 8: Click on "Click Here for Add/Drop Courses"
+  stagehand.log({ category: "action", message: "Clicking on Add/Drop Courses button" });
+  await navigator.run("addDropButton");
 }
 
-async function solveCaptchaAutomatically(page: Page, stagehand: Stagehand): Promise<string> {
-  stagehand.log({ category: "captcha", message: "Attempting automatic CAPTCHA recognition" });
-
+/**
+ * Log out of the portal, ignoring a missing logout link
+ */
+async function logout({ stagehand, navigator }: { stagehand: Stagehand; navigator: Navigator }) {
+  stagehand.log({ category: "action", message: "Logging out" });
   try {
-    // Find the CAPTCHA image and get its bounding box
-    const captchaInfo = await page.evaluate(() => {
-      const captchaImg = document.querySelector('img[src*="captcha"], img[alt*="captcha" i], img[alt*="CAPTCHA" i]');
-      if (!captchaImg) return null;
-      const rect = captchaImg.getBoundingClientRect();
-      return {
-        x: rect.x,
-        y: rect.y,
-        width: rect.width,
-        height: rect.height,
-        devicePixelRatio: window.devicePixelRatio,
-      };
-    });
-
-    if (!captchaInfo) {
-      throw new Error("Could not find CAPTCHA image");
-    }
-
-    // Take a screenshot of the CAPTCHA region
-    const screenshotBuffer = await page.screenshot({
-      clip: {
-        x: captchaInfo.x * captchaInfo.devicePixelRatio,
-        y: captchaInfo.y * captchaInfo.devicePixelRatio,
-        width: captchaInfo.width * captchaInfo.devicePixelRatio,
-        height: captchaInfo.height * captchaInfo.devicePixelRatio,
-      },
-    });
-
-    stagehand.log({ category: "captcha", message: "Sending CAPTCHA screenshot to LLM" });
-
-    // Recognize the CAPTCHA using the LLM
-    const captchaText = await recognizeCaptchaWithLLM(screenshotBuffer);
-
-    stagehand.log({
-      category: "captcha",
-      message: `Automatic CAPTCHA recognition result: ${captchaText}`,
-      auxiliary: { captchaText: { value: captchaText, type: "string" } },
-    });
-
-    announce(`CAPTCHA automatically recognized: ${chalk.green(captchaText)}`, "Auto CAPTCHA");
-
-    return captchaText;
-  } catch (error: any) {
-    stagehand.log({
-      category: "error",
-      message: `Error during automatic CAPTCHA recognition: ${error.message}`,
-      level: 2,
-    });
-
-    announce(`Automatic CAPTCHA recognition failed: ${error.message}`, "CAPTCHA Error");
-
-    // Fall back to manual input
-    announce("Falling back to manual CAPTCHA input", "Manual Fallback");
-    console.log(chalk.yellow("Please look at the browser window and enter the CAPTCHA text shown."));
-
-    return await promptForCaptcha();
+    await navigator.run("logout");
+  } catch (error) {
+    stagehand.log({ category: "warning", message: "Couldn't find logout button, continuing anyway" });
   }
 }
 
+/**
+ * Check one account's courses on its schedule until shutdown. Checks only run
+ * while holding a limiter slot, so accounts can share a concurrency budget.
+ */
 async function monitorCourseAvailability({
   page,
   context,
   stagehand,
+  account,
+  acquireSlot,
 }: {
   page: Page;
   context: BrowserContext;
   stagehand: Stagehand;
+  account: Account;
+  acquireSlot: Limiter;
 }) {
-  while (true) {
+  // Pick up the session from the previous run, if any
+  let session = isSessionReuseEnabled() ? await restoreSession(context) : null;
+  const schedulerState = await loadSchedulerState();
+  const scheduler = new Scheduler(await loadScheduleConfig(), schedulerState);
+  const navigator = new Navigator(page, stagehand, await loadNavigationConfig());
+
+  // Resume the schedule from before a restart instead of checking right away
+  if (schedulerState?.nextRunAt && new Date(schedulerState.nextRunAt) > new Date()) {
+    const delayMs = new Date(schedulerState.nextRunAt).getTime() - Date.now();
+    announce(`Resuming schedule: next check at ${new Date(schedulerState.nextRunAt).toLocaleString()}`, "Schedule");
+    updateAccountStatus(account.id, { state: "waiting", nextRun: { at: schedulerState.nextRunAt, reason: "resumed schedule" } });
+    await sleep(delayMs, checkNowSignal(account.id));
+  }
+
+  while (!isShutdownRequested()) {
+    let releaseSlot = await acquireSlot();
+    if (isShutdownRequested()) {
+      releaseSlot();
+      break;
+    }
+    updateAccountStatus(account.id, { state: "checking" });
+    // Waiting on a human can take minutes: let other accounts check meanwhile
+    const whileWaiting = async <T,>(task: () => Promise<T>) => {
+      releaseSlot();
+      try {
+        return await task();
+      } finally {
+        releaseSlot = await acquireSlot();
+      }
+    };
+
+    let next: NextRun;
+    let notifiers: Notifier[] = [];
+    let policy: NotificationPolicy = notificationPolicySchema.parse({});
+    // What the check log (and the digest) records about this check
+    const startedAt = new Date();
+    let sessionReused = false;
+    let loginOutcomes: LoginOutcome[] = [];
+    let checkError: string | undefined;
+    // Stagehand counts its own tokens; the check's share goes to /metrics
+    const { totalPromptTokens, totalCompletionTokens } = stagehand.metrics;
     try {
       announce("Starting course availability check", "PEC Course Monitor");
-      
-      // Step 1: Navigate to PEC website
-      stagehand.log({ category: "navigation", message: "Navigating to PEC website" });
-      await page.goto(PEC_URL);
-      
-      // Step 2: Click on "Login with AIS Credentials"
-      stagehand.log({ category: "action", message: "Clicking login with AIS credentials" });
-      await page.act("Click the button that says 'Login with AIS Credentials'");
-      await page.waitForTimeout(2000);
-      
-      // Step 3: Enter username
-      stagehand.log({ category: "action", message: "Entering username" });
-      await page.act(`Type "${USERNAME}" into the username field`);
-      await page.waitForTimeout(1000);
-      
-      // Step 4: Enter password
-      stagehand.log({ category: "action", message: "Entering password" });
-      await page.act(`Type "${PASSWORD}" into the password field`);
-      await page.waitForTimeout(1000);
-      
-      // Step 5: Handle CAPTCHA - AUTOMATIC APPROACH
-      stagehand.log({ category: "action", message: "Handling CAPTCHA automatically" });
-      
-      // Get the CAPTCHA text automatically
-      const captchaText = await solveCaptchaAutomatically(page, stagehand);
-      
-      // Enter the CAPTCHA
-      await page.act(`Type "${captchaText}" into the CAPTCHA input field`);
-      await page.waitForTimeout(1000);
-      
-      // Step 6: Click login button
-      stagehand.log({ category: "action", message: "Clicking login button" });
-      await page.act("Click the 'Log in' button");
-      await page.waitForTimeout(5000);
-      
-      // Check if login was successful by looking for elements that should appear after login
-      const { isLoggedIn } = await page.extract({
-        instruction: "Check if we are logged in by looking for user profile elements or dashboard elements",
-        schema: z.object({
-          isLoggedIn: z.boolean().describe("Whether we are successfully logged in")
-        }),
-      });
-      
-      if (!isLoggedIn) {
-        announce("Automatic CAPTCHA recognition failed. Please enter CAPTCHA manually.", "Manual CAPTCHA Required");
-        // Fall back to manual input
-        const captchaTextManual = await promptForCaptcha();
-        await page.act(`Type "${captchaTextManual}" into the CAPTCHA input field`);
-        await page.waitForTimeout(1000);
-
-        // Re-check login status after manual input
-        const { isLoggedInManual } = await page.extract({
-          instruction: "Check if we are logged in after manual CAPTCHA input",
-          schema: z.object({
-            isLoggedInManual: z.boolean().describe("Whether we are successfully logged in after manual CAPTCHA")
-          }),
-        });
 
-        if (!isLoggedInManual) {
-          announce("Login failed after manual CAPTCHA. Please check credentials or CAPTCHA.", "Login Failed");
-          throw new Error("Login failed after manual CAPTCHA. Please check credentials or CAPTCHA.");
-        }
-        announce("Login successful!", "Login Success");
-      } else {
-        announce("Login successful!", "Login Success");
+      // Reload the watchlist every check so edits take effect without a restart
+      const watchlist = account.watchlist ? sortWatchlist(account.watchlist) : await loadWatchlist();
+      scheduler.setConfig(await loadScheduleConfig());
+      navigator.setConfig(await loadNavigationConfig());
+      notifiers = await loadNotifiers(account.notifiers);
+      policy = await loadNotificationPolicy(account.notifiers);
+      if (notifiers.length === 0) {
+        stagehand.log({ category: "warning", message: "No notifiers configured, alerts will only be shown in the console" });
       }
-      
-      // Step 7: Navigate to Add & Drop Courses
-      stagehand.log({ category: "navigation", message: "Navigating to Add & Drop Courses" });
-      await page.act("Click on the 'Add & Drop Courses' link in the menu");
-      await page.waitForTimeout(3000);
-      
-      // Step 8: Click on "Click Here for Add/Drop Courses"
-      stagehand.log({ category: "action", message: "Clicking on Add/Drop Courses button" });
-      await page.act("Click on the button that says 'Click Here for Add/Drop Courses'");
-      await page.waitForTimeout(5000);
-      
-      // Step 9: Check if CS6701 COMPUTER NETWORKS course checkbox is selectable (SPECIAL PRIORITY)
-      stagehand.log({ category: "check", message: "Checking if CS6701 COMPUTER NETWORKS is selectable (SPECIAL PRIORITY)" });
-
-      // Manual HTML analysis for CS6701
-      const cs6701Status = await page.evaluate(() => {
-        const courseRows = Array.from(document.querySelectorAll('tr'));
-        const cs6701Row = courseRows.find(row => {
-          const cells = row.querySelectorAll('td');
-          return Array.from(cells).some(cell => cell.textContent?.includes('CS6701'));
-        });
-        
-        if (!cs6701Row) {
-          return { isVisible: false, isSelectable: false, checkboxState: 'not_found' };
+      // Alerts held back by quiet hours or the rate limit, and failed sends
+      await flushOutbox(notifiers, policy);
+
+      // Steps 1-8: Reuse the saved session if it's still live, otherwise log in
+      let onAddDropPage = false;
+      if (session && isSessionReuseEnabled()) {
+        stagehand.log({ category: "navigation", message: "Reusing saved session" });
+        await page.goto(session.addDropUrl);
+        const expiryReason = await detectSessionExpiry(page, session.addDropUrl);
+        if (expiryReason) {
+          stagehand.log({ category: "session", message: `Session expired (${expiryReason}), logging in again` });
+          await clearSession();
+          session = null;
+        } else {
+          onAddDropPage = true;
+          sessionReused = true;
+          announce("Reusing saved session - no login needed", "Session");
         }
-        
-        const checkbox = cs6701Row.querySelector('input[type="checkbox"]');
-        if (!checkbox) {
-          return { isVisible: true, isSelectable: false, checkboxState: 'not_found' };
-        }
-        
-        const isDisabled = checkbox.hasAttribute('disabled');
-        const isChecked = checkbox.hasAttribute('checked');
-        const onclick = checkbox.getAttribute('onclick');
-        
-        let checkboxState = 'unchecked';
-        if (isChecked) checkboxState = 'checked';
-        
-        return {
-          isVisible: true,
-          isSelectable: !isDisabled,
-          checkboxState,
-          onclick: onclick || 'none'
-        };
-      });
-      
-      const { isSelectable, isVisible, checkboxState } = cs6701Status;
-      
-      // Log the results
-      stagehand.log({
-        category: "result",
-        message: `CS6701 COMPUTER NETWORKS course status (SPECIAL PRIORITY):`,
-        auxiliary: {
-          isVisible: { value: String(isVisible), type: "string" },
-          isSelectable: { value: String(isSelectable), type: "string" },
-          checkboxState: { value: checkboxState, type: "string" },
-          onclick: { value: cs6701Status.onclick, type: "string" }
+      }
+
+      if (!onAddDropPage) {
+        navigator.resetFallbacks();
+        loginOutcomes = await login({ page, stagehand, account, navigator, human: { label: account.id, notifiers, policy, whileWaiting } });
+        await openAddDropPage({ stagehand, navigator });
+        if (navigator.fallbacks.length > 0) {
+          announce(
+            `These steps missed their selectors and needed the AI: ${navigator.fallbacks.join(", ")}\n` +
+            `Update them in ${process.env.SELECTORS_FILE || "selectors.json"} (see ${await getFallbacksPath()})`,
+            "Navigator"
+          );
         }
-      });
-      
-      // Print a nice formatted message
-      announce(
-        `🎯 SPECIAL PRIORITY COURSE: CS6701 COMPUTER NETWORKS\n` +
-        `Visible: ${isVisible ? chalk.green('YES') : chalk.red('NO')}\n` +
-        `Selectable: ${isSelectable ? chalk.green('YES') : chalk.red('NO')}\n` +
-        `Checkbox: ${
-          checkboxState === "checked" ? chalk.blue('CHECKED') : 
-          checkboxState === "unchecked" ? chalk.yellow('UNCHECKED') : 
-          chalk.red('NOT FOUND')
-        }\n` +
-        `onclick: ${chalk.cyan(cs6701Status.onclick)}`,
-        "Course Status"
-      );
+      }
 
-      // Step 10: Check ALL courses on the page
-      stagehand.log({ category: "check", message: "Checking ALL courses on the page" });
+      if (isSessionReuseEnabled()) {
+        // Save after every check so refreshed cookies are kept too
+        session = await saveSession(context, page.url());
+      }
 
-      // Manual HTML analysis for ALL courses
-      const allCourses = await page.evaluate(() => {
-        const courseRows = Array.from(document.querySelectorAll('tr'));
-        const courses = [];
-        
-        for (const row of courseRows) {
-          const cells = Array.from(row.querySelectorAll('td'));
-          if (cells.length < 3) continue; // Skip rows that don't have enough cells
-          
-          // Look for course code in the cells
-          let courseCode = '';
-          let courseName = '';
-          
-          for (let i = 0; i < cells.length; i++) {
-            const cellText = cells[i].textContent?.trim() || '';
-            // Course codes are typically 6-7 characters with letters and numbers
-            if (cellText.match(/^[A-Z]{2}\d{4}$/) && !courseCode) {
-              courseCode = cellText;
-              // Course name is usually in the next cell
-              if (cells[i + 1]) {
-                courseName = cells[i + 1].textContent?.trim() || '';
-              }
-              break;
-            }
+      // Step 9: Check every course on the watchlist (in priority order)
+      stagehand.log({ category: "check", message: `Checking ${watchlist.length} watched course(s)` });
+
+      const watchedStatuses = await checkWatchedCourses(page, watchlist);
+
+      for (const status of watchedStatuses) {
+        // Log the results
+        stagehand.log({
+          category: "result",
+          message: `${describeWatchedCourse(status)} ${status.courseName} course status (${status.priority.toUpperCase()} PRIORITY):`,
+          auxiliary: {
+            isVisible: { value: String(status.isVisible), type: "string" },
+            isSelectable: { value: String(status.isSelectable), type: "string" },
+            checkboxState: { value: status.checkboxState, type: "string" },
+            onclick: { value: status.onclick, type: "string" }
           }
-          
-          if (!courseCode) continue; // Skip rows without course codes
-          
-          // Find checkbox in this row
-          const checkbox = row.querySelector('input[type="checkbox"]');
-          let isSelectable = false;
-          let checkboxState = 'not_found';
-          let onclick = 'none';
-          
-          if (checkbox) {
-            const isDisabled = checkbox.hasAttribute('disabled');
-            const isChecked = checkbox.hasAttribute('checked');
-            onclick = checkbox.getAttribute('onclick') || 'none';
-            
-            isSelectable = !isDisabled;
-            checkboxState = isChecked ? 'checked' : 'unchecked';
+        });
+
+        // Print a nice formatted message
+        announce(
+          `🎯 ${status.priority.toUpperCase()} PRIORITY COURSE: ${describeWatchedCourse(status)} ${status.courseName}\n` +
+          `Visible: ${status.isVisible ? chalk.green('YES') : chalk.red('NO')}\n` +
+          `Selectable: ${status.isSelectable ? chalk.green('YES') : chalk.red('NO')}\n` +
+          `Checkbox: ${
+            status.checkboxState === "checked" ? chalk.blue('CHECKED') :
+            status.checkboxState === "unchecked" ? chalk.yellow('UNCHECKED') :
+            chalk.red('NOT FOUND')
+          }\n` +
+          `onclick: ${chalk.cyan(status.onclick)}`,
+          "Course Status"
+        );
+      }
+
+      // Swap / auto-enroll in watched courses that just became selectable (opt-in)
+      const enrollOptions = getEnrollOptions();
+      if (enrollOptions) {
+        // Swap rules go first: their target must only be added together with the drop
+        const swapRules = account.swaps ?? (await loadSwapRules());
+        for (const rule of swapRules) {
+          if (!(await isSwapReady(page, rule))) continue;
+
+          const result = await executeSwap(page, stagehand, navigator, rule, enrollOptions);
+          const isFailure = result.outcome === "partial_failure" || result.outcome === "rolled_back" || result.outcome === "failed";
+          stagehand.log({
+            category: isFailure ? "error" : "swap",
+            message: result.message,
+            auxiliary: {
+              outcome: { value: result.outcome, type: "string" },
+              registeredBefore: { value: result.registeredBefore.join(", "), type: "string" },
+              registeredAfter: { value: result.registeredAfter.join(", "), type: "string" },
+            },
+          });
+          announce(
+            `${result.outcome === "swapped" ? chalk.green(result.message) : isFailure ? chalk.red.bold(result.message) : chalk.yellow(result.message)}\n` +
+            `Registered before: ${result.registeredBefore.join(", ") || "none"}\n` +
+            `Registered after:  ${result.registeredAfter.join(", ") || "none"}` +
+            (result.screenshotPath ? `\nScreenshot: ${chalk.cyan(result.screenshotPath)}` : ''),
+            result.outcome === "partial_failure" ? "🚨 SWAP PARTIAL FAILURE" : "Course Swap"
+          );
+
+          if (result.outcome !== "attempts_exhausted" && result.outcome !== "dry_run_reported") {
+            await deliver(notifiers, {
+              subject: `${result.outcome === "partial_failure" ? "🚨 ACTION NEEDED - " : ""}PEC Course Monitor - Swap ${result.outcome.replace('_', ' ')}: ${describeSwapRule(rule)}`,
+              text:
+                `${result.message}\n` +
+                `Registered before: ${result.registeredBefore.join(", ") || "none"}\n` +
+                `Registered after: ${result.registeredAfter.join(", ") || "none"}`,
+              html:
+                `<p${isFailure ? ' style="color: red; font-weight: bold;"' : ''}>${escapeHtml(result.message)}</p>` +
+                `<p><strong>Registered before:</strong> ${escapeHtml(result.registeredBefore.join(", ") || "none")}<br>` +
+                `<strong>Registered after:</strong> ${escapeHtml(result.registeredAfter.join(", ") || "none")}</p>`,
+              attachments: result.screenshot
+                ? [{ filename: `swap-${rule.add}-result.png`, contentType: "image/png", content: result.screenshot }]
+                : undefined,
+              // A half-done swap may have dropped a course: someone has to look now
+              urgent: result.outcome === "partial_failure",
+            }, policy);
           }
-          
-          courses.push({
-            courseCode,
-            courseName,
-            isSelectable,
-            isVisible: true,
-            checkboxState,
-            onclick
+        }
+
+        const swapTargets = new Set(swapRules.map(rule => rule.add));
+        const enrollCandidates = getEnrollCandidates(watchedStatuses).filter(course => !swapTargets.has(course.courseCode));
+        for (const course of enrollCandidates) {
+          const result = await enrollInCourse(page, stagehand, navigator, course, enrollOptions);
+          stagehand.log({
+            category: "enroll",
+            message: result.message,
+            auxiliary: {
+              outcome: { value: result.outcome, type: "string" },
+              attempt: { value: String(result.attempt), type: "string" },
+            },
           });
+          announce(
+            `${result.outcome === "enrolled" ? chalk.green(result.message) : chalk.yellow(result.message)}` +
+            (result.screenshotPath ? `\nScreenshot: ${chalk.cyan(result.screenshotPath)}` : ''),
+            "Auto-Enroll"
+          );
+
+          if (result.outcome !== "attempts_exhausted" && result.outcome !== "dry_run_reported") {
+            await deliver(notifiers, {
+              subject: `PEC Course Monitor - Auto-enroll ${result.outcome.replace('_', ' ')}: ${result.courseCode}`,
+              text: `${result.message}\nAttempt ${result.attempt} of ${enrollOptions.maxAttempts}.`,
+              html: `<p>${escapeHtml(result.message)}</p><p>Attempt ${result.attempt} of ${enrollOptions.maxAttempts}.</p>`,
+              attachments: result.screenshot
+                ? [{ filename: `${result.courseCode}-confirmation.png`, contentType: "image/png", content: result.screenshot }]
+                : undefined,
+            }, policy);
+          }
         }
-        
-        return courses;
-      });
+      }
+
+      // Step 10: Check ALL courses on the page
+      stagehand.log({ category: "check", message: "Checking ALL courses on the page" });
+
+      const allCourses = await scrapeCourses(page);
+      recordCourses(account.id, allCourses, new Set(watchlist.map(course => course.courseCode)));
       
       // Log the results
       stagehand.log({
@@ -396,96 +300,164 @@ async function monitorCourseAvailability({
             course.checkboxState === "unchecked" ? chalk.yellow('UNCHECKED') : 
             chalk.red('NOT FOUND')
           }\n` +
-          `  onclick: ${chalk.cyan(course.onclick)}`
+          `  onclick: ${chalk.cyan(course.onclick)}` +
+          (course.slot || course.credits !== null ? `\n  Slot: ${course.slot ?? '-'}  Section: ${course.section ?? '-'}  Credits: ${course.credits ?? '-'}` : '') +
+          (course.seatsAvailable !== null ? `\n  Seats: ${course.seatsAvailable}${course.seatsTotal !== null ? `/${course.seatsTotal}` : ''}` : '') +
+          (course.faculty || course.courseType ? `\n  ${[course.courseType, course.faculty].filter(Boolean).join(' - ')}` : '')
         ).join('\n\n'),
         "All Courses Status"
       );
 
-      // Step 11: Send email summary
-      stagehand.log({ category: "email", message: "Preparing email summary" });
-      
-      // Create email summary
-      const emailBody = `
-        <h2>🎯 PEC Course Monitor Summary</h2>
-        <p><strong>Timestamp:</strong> ${new Date().toLocaleString()}</p>
-        
-        <h3>🎯 Special Priority Course: CS6701 COMPUTER NETWORKS</h3>
-        <ul>
-          <li><strong>Visible:</strong> ${isVisible ? 'YES' : 'NO'}</li>
-          <li><strong>Selectable:</strong> ${isSelectable ? 'YES' : 'NO'}</li>
-          <li><strong>Checkbox State:</strong> ${checkboxState.toUpperCase()}</li>
-        </ul>
-        
-        <h3>📋 All Courses Summary (${allCourses.length} total)</h3>
-        <table border="1" style="border-collapse: collapse; width: 100%;">
-          <thead>
-            <tr style="background-color: #f0f0f0;">
-              <th style="padding: 8px; text-align: left;">Course Code</th>
-              <th style="padding: 8px; text-align: left;">Course Name</th>
-              <th style="padding: 8px; text-align: center;">Visible</th>
-              <th style="padding: 8px; text-align: center;">Selectable</th>
-              <th style="padding: 8px; text-align: center;">Checkbox</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${allCourses.map(course => `
-              <tr>
-                <td style="padding: 8px; border: 1px solid #ddd;">${course.courseCode}</td>
-                <td style="padding: 8px; border: 1px solid #ddd;">${course.courseName}</td>
-                <td style="padding: 8px; border: 1px solid #ddd; text-align: center; color: ${course.isVisible ? 'green' : 'red'};">${course.isVisible ? 'YES' : 'NO'}</td>
-                <td style="padding: 8px; border: 1px solid #ddd; text-align: center; color: ${course.isSelectable ? 'green' : 'red'};">${course.isSelectable ? 'YES' : 'NO'}</td>
-                <td style="padding: 8px; border: 1px solid #ddd; text-align: center;">${course.checkboxState.toUpperCase()}</td>
-              </tr>
-            `).join('')}
-          </tbody>
-        </table>
-        
-        <p><em>This is an automated summary from your PEC Course Monitor Scout.</em></p>
-      `;
-
-      // Send email to both addresses
-      const emailAddresses = ['sarthakkapila1@gmail.com', 'ekomsaidha1@gmail.com'];
-      
-      for (const email of emailAddresses) {
-        try {
-          await sendEmail({
-            email: email,
-            subject: `PEC Course Monitor - ${new Date().toLocaleDateString()} ${new Date().toLocaleTimeString()}`,
-            body: emailBody
-          });
-          announce(`📧 Email summary sent to ${email}`, "Email Notification");
-        } catch (error) {
-          stagehand.log({ category: "error", message: `Failed to send email to ${email}: ${error}` });
-          announce(`❌ Failed to send email summary to ${email}`, "Email Error");
+      // Step 11: Compare with the previous snapshot
+      stagehand.log({ category: "check", message: "Comparing with the previous check" });
+
+      const previousSnapshot = await loadSnapshot();
+      if (allCourses.length === 0 && previousSnapshot?.courses.length) {
+        // An empty table almost always means the page didn't load, not that every course vanished
+        throw new Error("No courses found on the Add/Drop page");
+      }
+      await appendHistory(allCourses);
+
+      const changes = previousSnapshot ? diffCourses(previousSnapshot.courses, allCourses) : [];
+
+      if (!previousSnapshot) {
+        announce(`Saved the first snapshot (${allCourses.length} courses). Future checks will alert on changes.`, "Change Detection");
+      } else if (changes.length === 0) {
+        announce(`No changes since the last check at ${new Date(previousSnapshot.takenAt).toLocaleString()}`, "Change Detection");
+      } else {
+        announce(
+          `🔔 ${changes.length} CHANGE(S) SINCE LAST CHECK:\n` +
+          changes.map(change => {
+            const course = getChangedCourse(change);
+            return `${course.courseCode} ${course.courseName}: ${change.type === "became_selectable" ? chalk.green(describeChange(change)) : chalk.yellow(describeChange(change))}`;
+          }).join('\n'),
+          "Change Detection"
+        );
+      }
+
+      // Step 12: Send alert (only when something changed)
+      if (changes.length > 0) {
+        stagehand.log({ category: "notification", message: "Preparing alert" });
+
+        // Render the report from the templates (see templates.example/)
+        const report = await renderReport({
+          account: getScopeLabel() ?? null,
+          checkedAt: new Date(),
+          previousCheckAt: new Date(previousSnapshot!.takenAt),
+          watched: watchedStatuses,
+          changes,
+          courses: allCourses,
+        });
+
+        // Fan out to every configured notifier (dedupe, quiet hours and rate limits apply)
+        const results = await deliver(notifiers, report, policy);
+
+        for (const result of results) {
+          if (result.ok) {
+            announce(`📧 Alert sent via ${result.notifier}`, "Notification");
+          } else if (result.status === "duplicate") {
+            announce(`🔁 Already sent this alert via ${result.notifier}`, "Notification");
+          } else if (result.status !== "failed") {
+            announce(`🔕 Alert via ${result.notifier} held back (${result.status.replace("_", " ")}), it'll go out later`, "Notification");
+          } else {
+            stagehand.log({ category: "error", message: `Failed to send alert via ${result.notifier}: ${result.error}` });
+            announce(`❌ Failed to send alert via ${result.notifier}`, "Notification Error");
+          }
         }
       }
       
-      // Logout to keep the session clean
-      stagehand.log({ category: "action", message: "Logging out" });
-      try {
-        await page.act("Click on the logout button or link");
-        await page.waitForTimeout(2000);
-      } catch (error) {
-        stagehand.log({ category: "warning", message: "Couldn't find logout button, continuing anyway" });
+      // Only mark the changes as seen once they've been announced, so a restart
+      // mid-check re-alerts instead of silently swallowing them
+      await saveSnapshot(allCourses);
+
+      // Logout to keep the session clean (unless we're keeping it for the next check)
+      if (!isSessionReuseEnabled()) {
+        await logout({ stagehand, navigator });
       }
       
-      // Wait for the next check interval
-      announce(`Next check in ${CHECK_INTERVAL_MS / 60000} minutes`, "Schedule");
-      await page.waitForTimeout(CHECK_INTERVAL_MS);
-      
+      scheduler.recordSuccess(changes.length > 0);
+      next = scheduler.nextRun();
     } catch (error: any) {
-      announce(`Error: ${error.message}\nRetrying in 1 minute...`, "Error");
-      await page.waitForTimeout(60000); // Wait 1 minute before retrying
+      const reason = error instanceof LoginError ? error.outcome : undefined;
+      if (error instanceof LoginError) loginOutcomes = error.outcomes;
+      checkError = error.message;
+      scheduler.recordFailure(reason);
+      next = scheduler.nextRun();
+      announce(`Error: ${error.message}`, "Error");
+
+      // Retrying can't fix these, so tell someone (once per reason in a failure streak)
+      if ((reason === "wrong_credentials" || reason === "account_locked") && scheduler.shouldAlert(reason)) {
+        await deliver(notifiers, {
+          subject: `🚨 ACTION NEEDED - PEC Course Monitor - Login failed (${account.id})`,
+          text: `${error.message}. Checks will keep retrying slowly until the login works again.`,
+          html: `<p style="color: red; font-weight: bold;">${escapeHtml(error.message)}.</p><p>Checks will keep retrying slowly until the login works again.</p>`,
+        }, policy);
+      }
+    } finally {
+      // Let the next account check while this one waits
+      releaseSlot();
     }
+
+    const check: CheckRecord = {
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      ok: checkError === undefined,
+      error: checkError,
+      sessionReused,
+      loginOutcomes,
+    };
+    await appendCheck(check);
+    recordCheck(account.id, check);
+    recordLlmUsage(StagehandConfig.modelName ?? "stagehand", {
+      prompt_tokens: stagehand.metrics.totalPromptTokens - totalPromptTokens,
+      completion_tokens: stagehand.metrics.totalCompletionTokens - totalCompletionTokens,
+    });
+    if (isDashboardEnabled()) {
+      // Whatever the browser ended up on, so a failed check can be seen too
+      const image = await page.screenshot().catch(() => null);
+      if (image) updateAccountStatus(account.id, { screenshot: { image, takenAt: new Date().toISOString(), url: page.url() } });
+    }
+    try {
+      await maybeSendDigest(notifiers, policy, account.watchlist ?? (await loadWatchlist()));
+    } catch (error: any) {
+      stagehand.log({ category: "error", message: `Failed to send the digest: ${error.message}` });
+    }
+
+    // Wait for the next check (faster in registration windows and right after a change)
+    await saveSchedulerState(scheduler.toState(next));
+    if (isShutdownRequested()) break;
+    announce(describeNextRun(next), "Schedule");
+    updateAccountStatus(account.id, { state: "waiting", nextRun: { at: next.at.toISOString(), reason: next.reason } });
+    // The dashboard's "check now" button cuts the wait short
+    await sleep(next.delayMs, checkNowSignal(account.id));
+  }
+  updateAccountStatus(account.id, { state: "stopped", nextRun: null });
+
+  // Graceful shutdown: the current check has finished. A reusable session is
+  // kept for the next start, so only log out when sessions aren't reused.
+  if (isSessionReuseEnabled()) {
+    announce("Shutting down - keeping the session for the next start", "Scout System");
+  } else {
+    announce("Shutting down - logging out", "Scout System");
+    if (page.url() !== "about:blank") {
+      await logout({ stagehand, navigator });
+    }
+    await clearSession();
   }
 }
 
 /**
- * This is the main function that runs when you do npm run start
+ * Open an isolated browser for an account: each Stagehand instance launches
+ * its own browser, so cookies and sessions never leak between accounts
  */
-async function run() {
+async function createStagehand(daemon: boolean) {
   const stagehand = new Stagehand({
     ...StagehandConfig,
+    // Daemons have no one watching a browser window
+    localBrowserLaunchOptions: {
+      ...StagehandConfig.localBrowserLaunchOptions,
+      headless: daemon || StagehandConfig.localBrowserLaunchOptions?.headless,
+    },
   });
   await stagehand.init();
 
@@ -503,25 +475,119 @@ async function run() {
       ),
     );
   }
+  return stagehand;
+}
+
+/**
+ * This is the main function that runs when you do npm run start
+ */
+async function run() {
+  const daemon = isDaemonMode();
+  installShutdownHandlers();
+
+  const stagehands: Stagehand[] = [];
 
-  const page = stagehand.page;
-  const context = stagehand.context;
-  
-  announce("Starting PEC Course Monitor", "Scout System");
-  
   try {
-    await monitorCourseAvailability({
-      page,
-      context,
-      stagehand,
-    });
+    if (daemon) {
+      await writePidFile();
+    }
+    const accounts = await loadAccounts();
+    const concurrency = getAccountConcurrency();
+    const acquireSlot = createLimiter(concurrency);
+
+    announce(
+      `Starting PEC Course Monitor${daemon ? ` as a daemon (PID ${process.pid})` : ""}` +
+      (accounts.length > 1 ? `\nAccounts: ${accounts.map(account => account.id).join(", ")} (${concurrency} at a time)` : ""),
+      "Scout System"
+    );
+
+    if (isDashboardEnabled()) {
+      accounts.forEach(registerAccount);
+      announce(`Status dashboard: ${chalk.cyan(await startDashboard())}`, "Dashboard");
+    }
+
+    await Promise.all(
+      accounts.map(account =>
+        runInScope({ dataDir: account.dataDir, label: accounts.length > 1 ? account.id : undefined }, async () => {
+          const stagehand = await createStagehand(daemon);
+          stagehands.push(stagehand);
+          try {
+            await monitorCourseAvailability({
+              page: stagehand.page,
+              context: stagehand.context,
+              stagehand,
+              account,
+              acquireSlot,
+            });
+          } catch (error) {
+            // One account failing for good shouldn't stop the others
+            console.error(chalk.red(`Fatal error (account ${account.id}):`), error);
+          }
+        })
+      )
+    );
   } catch (error) {
     console.error(chalk.red("Fatal error:"), error);
+    process.exitCode = 1;
   } finally {
-    rl.close(); // Close readline interface
-    await stagehand.close();
+    closePrompt(); // Close readline interface
+    await terminateOcr();
+    await stopCaptchaServer();
+    await stopDashboard();
+    for (const stagehand of stagehands) {
+      await stagehand.close();
+    }
     console.log("Stagehand closed");
+    if (daemon) {
+      await removePidFile();
+    }
   }
 }
 
-run();
+/**
+ * Run a CLI subcommand against one account's data, picked with
+ * `--account <id>` (default: the first account)
+ */
+async function runForAccount(args: string[], command: (args: string[], account: Account) => Promise<void>) {
+  const flag = args.indexOf("--account");
+  const id = flag === -1 ? undefined : args[flag + 1];
+  const rest = flag === -1 ? args : [...args.slice(0, flag), ...args.slice(flag + 2)];
+
+  const accounts = await loadAccounts();
+  const account = id ? accounts.find(a => a.id === id) : accounts[0];
+  if (!account) {
+    console.error(`Unknown account "${id}". Known accounts: ${accounts.map(a => a.id).join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+  const label = accounts.length > 1 ? account.id : undefined;
+  await runInScope({ dataDir: account.dataDir, label }, () => command(rest, account));
+}
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command === "history") {
+  await runForAccount(args, runHistoryCommand);
+} else if (command === "cache") {
+  await runForAccount(args, runCacheCommand);
+} else if (command === "digest") {
+  await runForAccount(args, async (rest, account) =>
+    runDigestCommand(rest, {
+      notifiers: await loadNotifiers(account.notifiers),
+      policy: await loadNotificationPolicy(account.notifiers),
+      watchlist: account.watchlist ?? (await loadWatchlist()),
+    }),
+  );
+} else if (command === "captcha") {
+  await runCaptchaCommand(args);
+} else if (command === "vault") {
+  await runVaultCommand(args).catch((error) => {
+    console.error(chalk.red(error.message));
+    process.exitCode = 1;
+  });
+} else {
+  run().catch((error) => {
+    console.error(chalk.red("Fatal error:"), error);
+    process.exitCode = 1;
+  });
+}
@@ -84,7 +84,7 @@ export class CustomOpenAIClient extends LLMClient {
 
     /* eslint-disable */
     // Remove unsupported options
-    const { response_model, ...openaiOptions } = {
+    const { response_model, maxTokens, ...openaiOptions } = {
       ...optionsWithoutImageAndRequestId,
       model: this.modelName,
     };
@@ -221,6 +221,7 @@ export class CustomOpenAIClient extends LLMClient {
       ...openaiOptions,
       model: this.modelName,
       messages: formattedMessages,
+      max_tokens: maxTokens,
       response_format: responseFormat,
       stream: false,
       tools: options.tools?.map((tool) => ({
@@ -0,0 +1,310 @@
+import { Page, Stagehand } from "@browserbasehq/stagehand";
+import chalk from "chalk";
+import readline from "readline";
+import type { Account } from "./accounts.js";
+import {
+  CaptchaSolver,
+  captureCaptcha,
+  createSolver,
+  loadCaptchaConfig,
+  refreshCaptcha,
+  solveCaptcha,
+  SolverConfig,
+} from "./captcha.js";
+import { recordCaptchaSample } from "./captcha_dataset.js";
+import { askHumanForCaptcha, getHumanCaptchaMode } from "./captcha_human.js";
+import { isDaemonMode } from "./daemon.js";
+import { verifyLogin } from "./login_verifier.js";
+import type { Navigator } from "./navigator.js";
+import type { Notifier } from "./notifiers/notifier.js";
+import type { NotificationPolicy } from "./notifiers/policy.js";
+import { announce } from "./utils.js";
+import { fillCredentials, getCredentials } from "./vault.js";
+
+// Configuration, read on every login. Point PEC_URL at `pnpm mock-portal` to test locally
+export function getPecUrl() {
+  return process.env.PEC_URL || "https://pec.edu.in";
+}
+
+export type LoginOutcome =
+  | "success"
+  | "wrong_captcha"
+  | "wrong_credentials"
+  | "account_locked"
+  | "portal_down"
+  | "unknown"; // no error message, but not logged in either
+
+/**
+ * A login that didn't go through, with what the portal said about it
+ */
+export class LoginError extends Error {
+  constructor(
+    public readonly outcome: Exclude<LoginOutcome, "success">,
+    message: string,
+    // How each submitted attempt went, the last one included
+    public readonly outcomes: LoginOutcome[],
+  ) {
+    super(message);
+    this.name = "LoginError";
+  }
+}
+
+// Checked in this order: a locked account usually also says the login failed
+const OUTCOME_PATTERNS: [Exclude<LoginOutcome, "success" | "unknown">, RegExp][] = [
+  [
+    "portal_down",
+    /service (is )?(temporarily )?unavailable|server error in|runtime error|bad gateway|gateway time-?out|under maintenance|internal server error/i,
+  ],
+  ["account_locked", /account (has been |is )?(locked|blocked|disabled|suspended)|too many (failed |unsuccessful )?(login )?attempts/i],
+  ["wrong_captcha", /(invalid|incorrect|wrong) (captcha|security code|verification code)|captcha (is )?(invalid|incorrect|wrong|does not match)/i],
+  [
+    "wrong_credentials",
+    /invalid (username|user ?id|login|credentials)|(username|user ?id|password) (is |or password is )?(invalid|incorrect|wrong)|invalid username or password|authentication failed/i,
+  ],
+];
+
+/**
+ * Classify the page shown after submitting the login form by the error
+ * message on it
+ * @param text - The visible text of the page
+ * @returns The failure the page reports, or null if it doesn't report one
+ */
+export function classifyLoginPage(text: string): Exclude<LoginOutcome, "success" | "unknown"> | null {
+  return OUTCOME_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+const OUTCOME_MESSAGES: Record<Exclude<LoginOutcome, "success">, string> = {
+  wrong_captcha: "The portal rejected the CAPTCHA",
+  wrong_credentials: "The portal rejected the username or password",
+  account_locked: "The portal says the account is locked",
+  portal_down: "The portal is down",
+  unknown: "Login didn't go through and the portal gave no reason",
+};
+
+// Readline interface for user input (as fallback), created on first use so
+// CLI subcommands don't hold stdin open
+let rl: readline.Interface | null = null;
+
+// Function to prompt user for CAPTCHA input (fallback method)
+function promptForCaptcha(): Promise<string> {
+  if (isDaemonMode()) {
+    return Promise.reject(new Error("Manual CAPTCHA input is unavailable in daemon mode"));
+  }
+  rl ??= readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise((resolve) => {
+    rl!.question(chalk.yellow.bold("\n🔍 Please enter the CAPTCHA text shown in the browser: "), (answer) => {
+      resolve(answer.trim());
+    });
+  });
+}
+
+export function closePrompt() {
+  rl?.close();
+  rl = null;
+}
+
+/**
+ * What asking a human for the CAPTCHA needs: who's asking, where (and under
+ * which notification policy) to send the request, and a way to let other
+ * accounts check while we wait
+ */
+export type HumanHelp = {
+  label: string;
+  notifiers: Notifier[];
+  policy: NotificationPolicy;
+  whileWaiting: <T>(task: () => Promise<T>) => Promise<T>;
+};
+
+type CaptchaAnswer = {
+  text: string;
+  solver: string;
+  confidence?: number;
+  image?: Buffer; // what the answer was read from, for the CAPTCHA dataset
+};
+
+/**
+ * Read the CAPTCHA with the configured solver chain, falling back to asking a
+ * human when no solver is confident enough
+ */
+async function solveCaptchaAutomatically(
+  page: Page,
+  stagehand: Stagehand,
+  human: HumanHelp,
+  makeSolver: (config: SolverConfig) => CaptchaSolver,
+): Promise<CaptchaAnswer> {
+  stagehand.log({ category: "captcha", message: "Attempting automatic CAPTCHA recognition" });
+
+  try {
+    const result = await solveCaptcha(page, stagehand, await loadCaptchaConfig(), makeSolver);
+    if (result) {
+      announce(`CAPTCHA automatically recognized: ${chalk.green(result.guess.text)} (${result.guess.solver})`, "Auto CAPTCHA");
+      return { ...result.guess, image: result.image };
+    }
+    announce("No CAPTCHA solver was confident enough", "CAPTCHA Error");
+  } catch (error: any) {
+    stagehand.log({
+      category: "error",
+      message: `Error during automatic CAPTCHA recognition: ${error.message}`,
+      level: 2,
+    });
+
+    announce(`Automatic CAPTCHA recognition failed: ${error.message}`, "CAPTCHA Error");
+  }
+
+  // Fall back to manual input
+  announce("Falling back to manual CAPTCHA input", "Manual Fallback");
+  return await promptForManualCaptcha(page, human);
+}
+
+/**
+ * Ask a human for the CAPTCHA: on the terminal when someone's there,
+ * otherwise through the notifiers and the local CAPTCHA page
+ */
+async function promptForManualCaptcha(page: Page, human: HumanHelp): Promise<CaptchaAnswer> {
+  const mode = getHumanCaptchaMode();
+  if (mode === "off") {
+    throw new Error("Couldn't read the CAPTCHA and asking a human is turned off (CAPTCHA_HUMAN=off)");
+  }
+
+  if (mode === "terminal") {
+    const image = await captureCaptcha(page).catch(() => undefined);
+    console.log(chalk.yellow("Please look at the browser window and enter the CAPTCHA text shown."));
+    return { text: await promptForCaptcha(), solver: "manual", image };
+  }
+
+  const image = await captureCaptcha(page);
+  announce("Sent the CAPTCHA to your notifiers, waiting for an answer", "Manual Fallback");
+  const text = await human.whileWaiting(() => askHumanForCaptcha({ image, label: human.label, notifiers: human.notifiers, policy: human.policy }));
+  return { text, solver: "manual", image };
+}
+
+async function recordCaptcha(answer: CaptchaAnswer, success: boolean) {
+  if (!answer.image) return;
+  await recordCaptchaSample(answer.image, answer, success).catch((error) =>
+    console.error(chalk.red("Failed to record the CAPTCHA sample:"), error),
+  );
+}
+
+/**
+ * Open the login form, unless it's already showing (e.g. re-rendered with an
+ * error after a failed attempt)
+ * @throws LoginError("portal_down") if the portal can't be reached
+ */
+async function openLoginForm(page: Page, stagehand: Stagehand, navigator: Navigator, outcomes: LoginOutcome[]) {
+  if (outcomes.length > 0 && (await page.locator('input[type="password"]').count()) > 0) return;
+
+  // Step 1: Navigate to PEC website
+  stagehand.log({ category: "navigation", message: "Navigating to PEC website" });
+  try {
+    const response = await page.goto(getPecUrl());
+    if (response && response.status() >= 500) {
+      throw new Error(`HTTP ${response.status()}`);
+    }
+  } catch (error: any) {
+    throw new LoginError("portal_down", `${OUTCOME_MESSAGES.portal_down}: ${error.message}`, [...outcomes, "portal_down"]);
+  }
+
+  // Step 2: Click on "Login with AIS Credentials"
+  stagehand.log({ category: "action", message: "Clicking login with AIS credentials" });
+  await navigator.run("openLogin");
+}
+
+/**
+ * Work out how the last login attempt went from the page it landed on
+ */
+async function detectLoginOutcome(page: Page, stagehand: Stagehand, navigator: Navigator): Promise<LoginOutcome> {
+  const failure = classifyLoginPage(await page.locator("body").innerText().catch(() => ""));
+  if (failure) return failure;
+
+  const { loggedIn } = await verifyLogin({ page, stagehand, navigator });
+  return loggedIn ? "success" : "unknown";
+}
+
+/**
+ * Log into the PEC portal with AIS credentials, solving the CAPTCHA. Wrong
+ * CAPTCHAs (and failures the portal doesn't explain) are retried with a fresh
+ * CAPTCHA, the last attempt going to a human; wrong credentials, a locked
+ * account and a portal outage end the login straight away, since retrying
+ * can't help and might get the account locked.
+ * @returns How each attempt went
+ * @throws LoginError with the outcome of the last attempt
+ */
+export async function login({
+  page,
+  stagehand,
+  account,
+  navigator,
+  human,
+  makeSolver = createSolver,
+}: {
+  page: Page;
+  stagehand: Stagehand;
+  account: Account;
+  navigator: Navigator;
+  human: HumanHelp;
+  // Builds each solver in the CAPTCHA chain
+  makeSolver?: (config: SolverConfig) => CaptchaSolver;
+}): Promise<LoginOutcome[]> {
+  const maxAttempts = Math.max(1, Number(process.env.LOGIN_MAX_ATTEMPTS) || 3);
+  const credentials = await getCredentials(account);
+  const outcomes: LoginOutcome[] = [];
+  let outcome: LoginOutcome = "unknown";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    stagehand.log({ category: "login", message: `Login attempt ${attempt}/${maxAttempts}` });
+    await openLoginForm(page, stagehand, navigator, outcomes);
+
+    if (attempt > 1) {
+      // Never answer a CAPTCHA that was already used for a rejected attempt
+      // (before the credentials, in case refreshing posts the form back)
+      await refreshCaptcha(page).catch(() => {});
+    }
+
+    // Steps 3-4: Enter username and password (filled directly, never through the LLM).
+    // Refilled every attempt: the portal clears the password on a failed login.
+    stagehand.log({ category: "action", message: "Entering username and password" });
+    await fillCredentials(page, credentials);
+
+    // Step 5: Handle CAPTCHA - automatically, then by a human on the last retry
+    const lastTry = attempt === maxAttempts && maxAttempts > 1 && getHumanCaptchaMode() !== "off";
+    let captcha: CaptchaAnswer;
+    if (lastTry) {
+      announce(`Automatic CAPTCHA attempts failed, asking for help (attempt ${attempt}/${maxAttempts})`, "Manual CAPTCHA Required");
+      captcha = await promptForManualCaptcha(page, human);
+    } else {
+      stagehand.log({ category: "action", message: "Handling CAPTCHA automatically" });
+      captcha = await solveCaptchaAutomatically(page, stagehand, human, makeSolver);
+    }
+    await navigator.run("captchaInput", captcha.text);
+
+    // Step 6: Click login button
+    stagehand.log({ category: "action", message: "Clicking login button" });
+    await navigator.run("submitLogin");
+
+    outcome = await detectLoginOutcome(page, stagehand, navigator);
+    outcomes.push(outcome);
+    stagehand.log({
+      category: "login",
+      message: `Login attempt ${attempt}/${maxAttempts}: ${outcome}`,
+      auxiliary: { captchaSolver: { value: captcha.solver, type: "string" } },
+    });
+
+    // Only these say anything about whether the CAPTCHA answer was right
+    if (outcome === "success" || outcome === "wrong_captcha") {
+      await recordCaptcha(captcha, outcome === "success");
+    }
+
+    if (outcome === "success") {
+      announce("Login successful!", "Login Success");
+      return outcomes;
+    }
+    if (outcome !== "wrong_captcha" && outcome !== "unknown") break;
+  }
+
+  const failure = outcome as Exclude<LoginOutcome, "success">;
+  announce(`${OUTCOME_MESSAGES[failure]}. Please check credentials or CAPTCHA.`, "Login Failed");
+  throw new LoginError(failure, OUTCOME_MESSAGES[failure], outcomes);
+}
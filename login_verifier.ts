@@ -0,0 +1,131 @@
+import { Page, Stagehand } from "@browserbasehq/stagehand";
+import { z } from "zod";
+import type { Navigator } from "./navigator.js";
+
+/**
+ * What the page says about being logged in, collected without the LLM
+ */
+export type LoginSignals = {
+  url: string;
+  onLoginUrl: boolean; // the path looks like a login page
+  onMemberUrl: boolean; // the path looks like a page only logged-in users see
+  passwordField: boolean;
+  addDropMenu: boolean;
+  logoutLink: boolean;
+  sessionCookies: string[]; // names of the portal's session cookies
+};
+
+export type LoginVerdict = {
+  loggedIn: boolean;
+  // "structural" when the signals agreed, "llm" when they didn't and the
+  // page had to be read by the LLM
+  method: "structural" | "llm";
+  reasons: string[];
+  signals: LoginSignals;
+};
+
+// Overridable in case the portal's URLs or cookie names change
+function pattern(name: string, fallback: string) {
+  return new RegExp(process.env[name] || fallback, "i");
+}
+
+/**
+ * Look at the current page: its URL, the login form, the Add & Drop menu and
+ * the logout link (using the navigator's selectors), and the session cookies
+ */
+export async function collectLoginSignals(page: Page, navigator: Navigator): Promise<LoginSignals> {
+  const url = new URL(page.url());
+  const sessionCookie = pattern("SESSION_COOKIE_PATTERN", "session|auth");
+  const cookies = url.protocol.startsWith("http") ? await page.context().cookies(url.origin) : [];
+
+  return {
+    url: url.href,
+    onLoginUrl: pattern("LOGIN_URL_PATTERN", "log-?in|sign-?in").test(url.pathname),
+    onMemberUrl: pattern("LOGGED_IN_URL_PATTERN", "dashboard|student|add-?drop").test(url.pathname),
+    passwordField: (await page.locator('input[type="password"]').count()) > 0,
+    // The menu is rendered with the page, so there's no point waiting long
+    addDropMenu: await navigator.isVisible("addDropMenu", 1_000),
+    logoutLink: await navigator.isVisible("logout", 1_000),
+    sessionCookies: cookies.filter((cookie) => sessionCookie.test(cookie.name)).map((cookie) => cookie.name),
+  };
+}
+
+/**
+ * Decide from the signals alone. A login form means logged out; a session
+ * cookie plus something only logged-in users see (the Add & Drop menu, a
+ * logout link or a member-only URL) means logged in.
+ * @returns The verdict and why, with `loggedIn: null` when the signals don't settle it
+ */
+export function judgeLoginSignals(signals: LoginSignals): { loggedIn: boolean | null; reasons: string[] } {
+  const reasons: string[] = [];
+  const path = new URL(signals.url).pathname;
+
+  if (signals.passwordField || signals.onLoginUrl) {
+    if (signals.passwordField) reasons.push("login form shown");
+    if (signals.onLoginUrl) reasons.push(`on the login page (${path})`);
+    return { loggedIn: false, reasons };
+  }
+
+  if (signals.addDropMenu) reasons.push("Add & Drop menu found");
+  if (signals.logoutLink) reasons.push("logout link found");
+  if (signals.onMemberUrl) reasons.push(`on a member page (${path})`);
+  const memberOnly = reasons.length > 0;
+
+  if (signals.sessionCookies.length) {
+    reasons.push(`session cookie set (${signals.sessionCookies.join(", ")})`);
+  } else {
+    reasons.push("no session cookie");
+  }
+
+  if (memberOnly && signals.sessionCookies.length) return { loggedIn: true, reasons };
+  if (!memberOnly) reasons.push("nothing only logged-in users see");
+  return { loggedIn: null, reasons };
+}
+
+/**
+ * Work out whether the browser is logged into the portal, from the page
+ * structure, falling back to asking the LLM only when the structural signals
+ * are inconclusive. Every verdict is logged with its reasons.
+ * @returns The typed verdict
+ */
+export async function verifyLogin({
+  page,
+  stagehand,
+  navigator,
+}: {
+  page: Page;
+  stagehand: Stagehand;
+  navigator: Navigator;
+}): Promise<LoginVerdict> {
+  const signals = await collectLoginSignals(page, navigator);
+  const judged = judgeLoginSignals(signals);
+
+  let verdict: LoginVerdict;
+  if (judged.loggedIn !== null) {
+    verdict = { loggedIn: judged.loggedIn, method: "structural", reasons: judged.reasons, signals };
+  } else {
+    // Last resort: let the LLM read the page
+    const { isLoggedIn } = await page.extract({
+      instruction: "Check if we are logged in by looking for user profile elements or dashboard elements",
+      schema: z.object({
+        isLoggedIn: z.boolean().describe("Whether we are successfully logged in"),
+      }),
+    });
+    verdict = {
+      loggedIn: isLoggedIn,
+      method: "llm",
+      reasons: [...judged.reasons, `the LLM says ${isLoggedIn ? "logged in" : "not logged in"}`],
+      signals,
+    };
+  }
+
+  stagehand.log({
+    category: "login",
+    message: `Login verdict: ${verdict.loggedIn ? "logged in" : "not logged in"} (${verdict.method})`,
+    auxiliary: {
+      reasons: { value: verdict.reasons.join("; "), type: "string" },
+      url: { value: signals.url, type: "string" },
+    },
+  });
+  return verdict;
+}
@@ -0,0 +1,211 @@
+import type { CourseRow } from "./courses.js";
+import { CheckRecord, summarizeLogins } from "./history.js";
+
+type Labels = Record<string, string>;
+
+function seriesKey(labels: Labels) {
+  return JSON.stringify(Object.entries(labels).sort());
+}
+
+/**
+ * One metric family in the Prometheus text format, with a series per label set
+ */
+class Metric {
+  protected series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge",
+  ) {}
+
+  protected add(labels: Labels, value: number, replace: boolean) {
+    const key = seriesKey(labels);
+    const current = this.series.get(key);
+    this.series.set(key, { labels, value: replace || !current ? value : current.value + value });
+  }
+
+  /**
+   * Drop every series whose labels include these
+   */
+  remove(match: Labels) {
+    for (const [key, { labels }] of this.series) {
+      if (Object.entries(match).every(([name, value]) => labels[name] === value)) this.series.delete(key);
+    }
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+class Counter extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels, value = 1) {
+    this.add(labels, value, false);
+  }
+}
+
+class Gauge extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number) {
+    this.add(labels, value, true);
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[],
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`));
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+const checksAttempted = new Counter("pec_checks_attempted_total", "Checks started");
+const checksSucceeded = new Counter("pec_checks_succeeded_total", "Checks that got through to the course table");
+const checkDuration = new Histogram("pec_check_duration_seconds", "How long a check took, login included", [5, 10, 30, 60, 120, 300, 600]);
+const lastCheck = new Gauge("pec_last_check_timestamp_seconds", "When the last check finished");
+const lastSuccess = new Gauge("pec_last_success_timestamp_seconds", "When the last successful check finished");
+const loginAttempts = new Counter("pec_login_attempts_total", "Submitted login attempts");
+const loginFailures = new Counter("pec_login_failures_total", "Failed login attempts, by reason");
+const captchaAttempts = new Counter("pec_captcha_attempts_total", "CAPTCHA answers the portal judged");
+const captchaSolved = new Counter("pec_captcha_solved_total", "CAPTCHA answers the portal accepted");
+const captchaSolveRate = new Gauge("pec_captcha_solve_rate", "Share of CAPTCHA answers accepted since the monitor started");
+const courseSelectable = new Gauge("pec_course_selectable", "1 if the course was selectable in the last scrape, 0 if not");
+const llmTokens = new Counter("pec_llm_tokens_total", "LLM tokens used, by model and kind (prompt or completion)");
+const notificationsSent = new Counter("pec_notifications_sent_total", "Notifications delivered, by channel");
+const notificationsFailed = new Counter("pec_notifications_failed_total", "Notifications a channel rejected, by channel");
+
+const metrics: { render(): string[] }[] = [
+  checksAttempted,
+  checksSucceeded,
+  checkDuration,
+  lastCheck,
+  lastSuccess,
+  loginAttempts,
+  loginFailures,
+  captchaAttempts,
+  captchaSolved,
+  captchaSolveRate,
+  courseSelectable,
+  llmTokens,
+  notificationsSent,
+  notificationsFailed,
+];
+
+// Totals behind the solve rate, per account
+const captchaTotals = new Map<string, { attempts: number; solved: number }>();
+
+/**
+ * Count a finished check: its result, duration, login attempts and CAPTCHAs
+ * @param account - The account id
+ * @param record - The check, as written to checks.jsonl
+ */
+export function recordCheck(account: string, record: CheckRecord) {
+  const labels = { account };
+  const finishedAt = Date.parse(record.finishedAt) / 1000;
+  checksAttempted.inc(labels);
+  checkDuration.observe(labels, finishedAt - Date.parse(record.startedAt) / 1000);
+  lastCheck.set(labels, finishedAt);
+  if (record.ok) {
+    checksSucceeded.inc(labels);
+    lastSuccess.set(labels, finishedAt);
+  }
+
+  const { logins, captcha } = summarizeLogins([record]);
+  loginAttempts.inc(labels, logins.attempts);
+  for (const [reason, count] of Object.entries(logins.failures)) {
+    loginFailures.inc({ account, reason }, count);
+  }
+
+  const totals = captchaTotals.get(account) ?? { attempts: 0, solved: 0 };
+  totals.attempts += captcha.attempts;
+  totals.solved += captcha.solved;
+  captchaTotals.set(account, totals);
+  captchaAttempts.inc(labels, captcha.attempts);
+  captchaSolved.inc(labels, captcha.solved);
+  if (totals.attempts) captchaSolveRate.set(labels, totals.solved / totals.attempts);
+}
+
+/**
+ * Replace an account's per-course selectable gauges with the latest scrape
+ * @param account - The account id
+ * @param courses - Every course in the Add/Drop table
+ * @param watched - The watched course codes, labelled so dashboards can filter on them
+ */
+export function recordCourses(account: string, courses: CourseRow[], watched: Set<string>) {
+  courseSelectable.remove({ account });
+  for (const course of courses) {
+    courseSelectable.set(
+      { account, course: course.courseCode, watched: String(watched.has(course.courseCode)) },
+      course.isSelectable ? 1 : 0,
+    );
+  }
+}
+
+/**
+ * Count the tokens an LLM call used
+ * @param model - The model name
+ * @param usage - The usage the client returned
+ */
+export function recordLlmUsage(model: string, usage: { prompt_tokens: number; completion_tokens: number }) {
+  if (usage.prompt_tokens) llmTokens.inc({ model, kind: "prompt" }, usage.prompt_tokens);
+  if (usage.completion_tokens) llmTokens.inc({ model, kind: "completion" }, usage.completion_tokens);
+}
+
+/**
+ * Count a notification send through one channel
+ * @param channel - The notifier name, e.g. "telegram"
+ * @param ok - Whether the backend accepted it
+ */
+export function recordNotification(channel: string, ok: boolean) {
+  (ok ? notificationsSent : notificationsFailed).inc({ channel });
+}
+
+/**
+ * Every metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  return metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
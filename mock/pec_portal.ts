@@ -0,0 +1,382 @@
+/**
+ * A local stand-in for the PEC portal, for trying the monitor without real
+ * credentials. It mimics the flow the monitor walks through:
+ *
+ *   /                       home page with "Login with AIS Credentials"
+ *   /Login.aspx             username, password and CAPTCHA form
+ *   /captcha.svg            the CAPTCHA image
+ *   /Dashboard.aspx         menu with "Add & Drop Courses" and "Logout"
+ *   /AddDrop.aspx           the "Click Here for Add/Drop Courses" button
+ *   /AddDropCourses.aspx    the course table (POST saves ticked courses)
+ *   /Logout.aspx            ends the session
+ *
+ * Tests (or you, with curl) can change the course table to simulate seats
+ * opening and closing:
+ *
+ *   curl -X POST localhost:4010/__mock/courses/CS6701 -d '{"disabled": false}'
+ *   curl -X POST localhost:4010/__mock/expire-sessions
+ *
+ * Run it with `pnpm mock-portal`, then start the monitor with
+ * PEC_URL=http://localhost:4010.
+ */
+
+import http from "http";
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+
+export type MockCourse = {
+  courseCode: string;
+  courseName: string;
+  courseType: string;
+  credits: number;
+  slot: string;
+  section: string;
+  faculty: string;
+  seatsAvailable: number;
+  seatsTotal: number;
+  // Checkbox attributes: disabled = not selectable, checked = registered
+  disabled: boolean;
+  checked: boolean;
+};
+
+export type MockPortalOptions = {
+  port?: number;
+  username?: string;
+  password?: string;
+  // Fixed CAPTCHA text; random per page load when unset
+  captchaText?: string;
+  courses?: MockCourse[];
+};
+
+export type MockPortal = {
+  url: string;
+  setCourses(courses: MockCourse[]): void;
+  updateCourse(courseCode: string, changes: Partial<MockCourse>): void;
+  getCourses(): MockCourse[];
+  // Forget every session, as if the portal expired them
+  expireSessions(): void;
+  close(): Promise<void>;
+};
+
+type Session = {
+  captcha: string;
+  loggedIn: boolean;
+};
+
+export const DEFAULT_MOCK_COURSES: MockCourse[] = [
+  {
+    courseCode: "CS6701",
+    courseName: "COMPUTER NETWORKS",
+    courseType: "Program Elective",
+    credits: 4,
+    slot: "B",
+    section: "A1",
+    faculty: "Dr. R. Sharma",
+    seatsAvailable: 0,
+    seatsTotal: 60,
+    disabled: true,
+    checked: false,
+  },
+  {
+    courseCode: "HS6001",
+    courseName: "PROFESSIONAL ETHICS",
+    courseType: "Humanities",
+    credits: 3,
+    slot: "D",
+    section: "A1",
+    faculty: "Dr. K. Kaur",
+    seatsAvailable: 12,
+    seatsTotal: 80,
+    disabled: false,
+    checked: true,
+  },
+  {
+    courseCode: "MM6006",
+    courseName: "COMPOSITE MATERIALS",
+    courseType: "Open Elective",
+    credits: 3,
+    slot: "B",
+    section: "A2",
+    faculty: "Dr. S. Singh",
+    seatsAvailable: 5,
+    seatsTotal: 40,
+    disabled: false,
+    checked: false,
+  },
+];
+
+const SESSION_COOKIE = "ASP.NET_SessionId";
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function layout(title: string, body: string) {
+  return `<!DOCTYPE html>
+<html>
+<head><title>${escapeHtml(title)} - PEC</title></head>
+<body>
+<h2>Punjab Engineering College (Mock Portal)</h2>
+${body}
+</body>
+</html>`;
+}
+
+function randomCaptcha() {
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  return Array.from({ length: 5 }, () => alphabet[crypto.randomInt(alphabet.length)]).join("");
+}
+
+function captchaSvg(text: string) {
+  const letters = text
+    .split("")
+    .map((char, i) => {
+      const rotate = crypto.randomInt(-20, 21);
+      const x = 18 + i * 24;
+      return `<text x="${x}" y="34" font-size="26" font-family="monospace" transform="rotate(${rotate} ${x} 26)">${char}</text>`;
+    })
+    .join("");
+  const noise = Array.from({ length: 4 }, () => {
+    const [x1, y1, x2, y2] = [0, 50, 150, 50].map((max) => crypto.randomInt(max + 1));
+    return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#999" />`;
+  }).join("");
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="150" height="50"><rect width="150" height="50" fill="#eee" />${noise}${letters}</svg>`;
+}
+
+function renderCourseTable(courses: MockCourse[]) {
+  const rows = courses
+    .map(
+      (course, i) => `
+    <tr>
+      <td><input id="chk${i}" type="checkbox" name="chk${i}" value="${course.courseCode}" onclick="chkcontrol0(${i})"${course.disabled ? ' disabled="disabled"' : ""}${course.checked ? ' checked="checked"' : ""} /></td>
+      <td>${i + 1}</td>
+      <td>${escapeHtml(course.courseCode)}</td>
+      <td>${escapeHtml(course.courseName)}</td>
+      <td>${escapeHtml(course.courseType)}</td>
+      <td>${course.credits}</td>
+      <td>${escapeHtml(course.slot)}</td>
+      <td>${escapeHtml(course.section)}</td>
+      <td>${escapeHtml(course.faculty)}</td>
+      <td>${course.seatsAvailable}/${course.seatsTotal}</td>
+    </tr>`,
+    )
+    .join("");
+
+  return `
+<form method="post" action="/AddDropCourses.aspx">
+  <table id="gvCourses" border="1">
+    <tr>
+      <th>Select</th><th>Sr. No.</th><th>Course Code</th><th>Course Name</th><th>Course Type</th>
+      <th>Credits</th><th>Slot</th><th>Section</th><th>Faculty</th><th>Seats (Avail/Total)</th>
+    </tr>${rows}
+  </table>
+  <input type="submit" id="btnSave" value="Save Add/Drop" />
+</form>`;
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  return Object.fromEntries(
+    (header ?? "")
+      .split(";")
+      .map((part) => part.trim().split("="))
+      .filter(([name]) => name)
+      .map(([name, ...value]) => [name, decodeURIComponent(value.join("="))]),
+  );
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+/**
+ * Start the mock portal
+ * @param options - Credentials, CAPTCHA and the initial course table
+ * @returns Controls for the running portal
+ */
+export async function startMockPortal(options: MockPortalOptions = {}): Promise<MockPortal> {
+  const username = options.username ?? "student";
+  const password = options.password ?? "password";
+  let courses = structuredClone(options.courses ?? DEFAULT_MOCK_COURSES);
+  const sessions = new Map<string, Session>();
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname;
+
+    let sessionId = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    let session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      sessionId = crypto.randomUUID();
+      session = { captcha: "", loggedIn: false };
+      sessions.set(sessionId, session);
+      res.setHeader("Set-Cookie", `${SESSION_COOKIE}=${sessionId}; Path=/; HttpOnly`);
+    }
+
+    const send = (status: number, body: string, contentType = "text/html; charset=utf-8") => {
+      res.writeHead(status, { "Content-Type": contentType });
+      res.end(body);
+    };
+    const redirect = (location: string) => {
+      res.writeHead(302, { Location: location });
+      res.end();
+    };
+    const renderLogin = (error?: string) => {
+      session!.captcha = options.captchaText ?? randomCaptcha();
+      send(
+        200,
+        layout(
+          "Login",
+          `
+<form method="post" action="/Login.aspx">
+  ${error ? `<p class="error" style="color: red;">${escapeHtml(error)}</p>` : ""}
+  <label>Username <input type="text" name="username" id="txtUserName" /></label><br>
+  <label>Password <input type="password" name="password" id="txtPassword" /></label><br>
+  <img src="/captcha.svg?${Date.now()}" alt="CAPTCHA" id="imgCaptcha" /><br>
+  <label>Enter CAPTCHA <input type="text" name="captcha" id="txtCaptcha" /></label><br>
+  <input type="submit" value="Log in" id="btnLogin" />
+</form>`,
+        ),
+      );
+    };
+
+    try {
+      // Test controls
+      if (path === "/__mock/courses") {
+        if (req.method === "POST") {
+          courses = JSON.parse(await readBody(req));
+        }
+        return send(200, JSON.stringify(courses), "application/json");
+      }
+      if (path.startsWith("/__mock/courses/") && req.method === "POST") {
+        const courseCode = decodeURIComponent(path.slice("/__mock/courses/".length));
+        const changes: Partial<MockCourse> = JSON.parse(await readBody(req));
+        courses = courses.map((course) => (course.courseCode === courseCode ? { ...course, ...changes } : course));
+        return send(200, JSON.stringify(courses), "application/json");
+      }
+      if (path === "/__mock/expire-sessions" && req.method === "POST") {
+        sessions.clear();
+        return send(200, "{}", "application/json");
+      }
+
+      if (path === "/" && req.method === "GET") {
+        return send(200, layout("Home", `<a href="/Login.aspx" class="btn">Login with AIS Credentials</a>`));
+      }
+
+      if (path === "/Login.aspx") {
+        if (req.method === "GET") return renderLogin();
+
+        const form = new URLSearchParams(await readBody(req));
+        if (form.get("captcha")?.trim().toUpperCase() !== session.captcha.toUpperCase()) {
+          return renderLogin("Invalid CAPTCHA. Please try again.");
+        }
+        if (form.get("username") !== username || form.get("password") !== password) {
+          return renderLogin("Invalid username or password.");
+        }
+        session.loggedIn = true;
+        return redirect("/Dashboard.aspx");
+      }
+
+      if (path === "/captcha.svg") {
+        return send(200, captchaSvg(session.captcha || "?????"), "image/svg+xml");
+      }
+
+      if (path === "/Logout.aspx") {
+        sessions.delete(sessionId);
+        return redirect("/");
+      }
+
+      // Everything below needs a logged-in session, like the real portal
+      if (!session.loggedIn) return redirect("/Login.aspx");
+
+      if (path === "/Dashboard.aspx") {
+        return send(
+          200,
+          layout(
+            "Dashboard",
+            `
+<p class="profile">Welcome, ${escapeHtml(username)}</p>
+<ul class="menu">
+  <li><a href="/Dashboard.aspx">Dashboard</a></li>
+  <li><a href="/AddDrop.aspx">Add &amp; Drop Courses</a></li>
+  <li><a href="/Logout.aspx">Logout</a></li>
+</ul>`,
+          ),
+        );
+      }
+
+      if (path === "/AddDrop.aspx") {
+        return send(
+          200,
+          layout(
+            "Add & Drop",
+            `<a href="/AddDropCourses.aspx"><button type="button">Click Here for Add/Drop Courses</button></a>
+<a href="/Logout.aspx">Logout</a>`,
+          ),
+        );
+      }
+
+      if (path === "/AddDropCourses.aspx") {
+        if (req.method === "POST") {
+          // Browsers only submit ticked, enabled checkboxes; disabled rows keep their state
+          const form = new URLSearchParams(await readBody(req));
+          courses = courses.map((course, i) => {
+            if (course.disabled) return course;
+            const ticked = form.has(`chk${i}`);
+            if (ticked && !course.checked && course.seatsAvailable > 0) {
+              return { ...course, checked: true, seatsAvailable: course.seatsAvailable - 1 };
+            }
+            if (!ticked && course.checked) {
+              return { ...course, checked: false, seatsAvailable: course.seatsAvailable + 1 };
+            }
+            return course;
+          });
+        }
+        return send(
+          200,
+          layout("Add/Drop Courses", `${renderCourseTable(courses)}\n<a href="/Logout.aspx">Logout</a>`),
+        );
+      }
+
+      send(404, layout("Not Found", "<p>Page not found</p>"));
+    } catch (error: any) {
+      send(500, layout("Error", `<p>${escapeHtml(error.message)}</p>`));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    setCourses(next) {
+      courses = structuredClone(next);
+    },
+    updateCourse(courseCode, changes) {
+      courses = courses.map((course) => (course.courseCode === courseCode ? { ...course, ...changes } : course));
+    },
+    getCourses() {
+      return structuredClone(courses);
+    },
+    expireSessions() {
+      sessions.clear();
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+// `pnpm mock-portal` runs the portal on its own
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const portal = await startMockPortal({
+    port: Number(process.env.MOCK_PORTAL_PORT) || 4010,
+    username: process.env.USERNAME || undefined,
+    password: process.env.PASSWORD || undefined,
+    captchaText: process.env.MOCK_CAPTCHA_TEXT || undefined,
+  });
+  console.log(`Mock PEC portal running at ${portal.url} (set PEC_URL=${portal.url})`);
+}
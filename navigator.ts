@@ -0,0 +1,226 @@
+import { Page, Stagehand } from "@browserbasehq/stagehand";
+import fs from "fs/promises";
+import { z } from "zod";
+import { actWithCache } from "./cache.js";
+import { getDataPath, writeFileAtomic } from "./utils.js";
+
+export const NAVIGATION_STEPS = [
+  "openLogin",
+  "captchaInput",
+  "submitLogin",
+  "addDropMenu",
+  "addDropButton",
+  "submitAddDrop",
+  "logout",
+] as const;
+
+export type NavigationStep = (typeof NAVIGATION_STEPS)[number];
+
+export const navigationStepSchema = z.object({
+  // The first visible match on the page is used; Playwright selectors, so
+  // CSS, `text=...` and `xpath=...` all work
+  selectors: z.array(z.string()),
+  // What to ask the LLM when no selector matches. For fill steps, {value} is
+  // replaced with the text to type.
+  instruction: z.string(),
+  action: z.enum(["click", "fill"]).default("click"),
+  // Optional selector that must show up once the step is done
+  waitFor: z.string().optional(),
+  timeoutMs: z.number().positive().default(10_000),
+});
+
+export type NavigationStepConfig = z.infer<typeof navigationStepSchema>;
+
+export const navigationConfigSchema = z.record(z.enum(NAVIGATION_STEPS), navigationStepSchema.partial());
+
+// Known-good selectors for the PEC portal (and the mock portal, which mirrors it)
+const DEFAULT_STEPS: Record<NavigationStep, NavigationStepConfig> = {
+  openLogin: {
+    selectors: ['a:has-text("Login with AIS Credentials")', 'button:has-text("Login with AIS Credentials")'],
+    instruction: "Click the button that says 'Login with AIS Credentials'",
+    action: "click",
+    waitFor: 'input[type="password"]',
+    timeoutMs: 10_000,
+  },
+  captchaInput: {
+    selectors: ['input[id*="captcha" i]', 'input[name*="captcha" i]'],
+    instruction: 'Type "{value}" into the CAPTCHA input field',
+    action: "fill",
+    timeoutMs: 10_000,
+  },
+  submitLogin: {
+    selectors: ['input[type="submit"][value*="log in" i]', 'button:has-text("Log in")', 'input[id*="login" i][type="submit"]'],
+    instruction: "Click the 'Log in' button",
+    action: "click",
+    timeoutMs: 15_000,
+  },
+  addDropMenu: {
+    selectors: ['a:has-text("Add & Drop Courses")', 'a[href*="AddDrop" i]:not([href*="AddDropCourses" i])'],
+    instruction: "Click on the 'Add & Drop Courses' link in the menu",
+    action: "click",
+    timeoutMs: 10_000,
+  },
+  addDropButton: {
+    selectors: ['button:has-text("Click Here for Add/Drop Courses")', 'a:has-text("Click Here for Add/Drop Courses")'],
+    instruction: "Click on the button that says 'Click Here for Add/Drop Courses'",
+    action: "click",
+    waitFor: 'input[type="checkbox"]',
+    timeoutMs: 15_000,
+  },
+  submitAddDrop: {
+    selectors: ["#btnSave", 'input[type="submit"][value*="save" i]', 'button:has-text("Save")'],
+    instruction: "Click the button that submits or saves the Add/Drop course selection",
+    action: "click",
+    timeoutMs: 30_000,
+  },
+  logout: {
+    selectors: ['a:has-text("Logout")', 'a:has-text("Log out")', 'a[href*="logout" i]'],
+    instruction: "Click on the logout button or link",
+    action: "click",
+    timeoutMs: 10_000,
+  },
+};
+
+/**
+ * Load the navigation selectors: the built-in defaults, with any step
+ * overridden by SELECTORS_FILE (default: selectors.json)
+ * @returns The config for every step
+ */
+export async function loadNavigationConfig(): Promise<Record<NavigationStep, NavigationStepConfig>> {
+  const file = process.env.SELECTORS_FILE || "selectors.json";
+  let overrides: z.infer<typeof navigationConfigSchema> = {};
+  try {
+    overrides = navigationConfigSchema.parse(JSON.parse(await fs.readFile(file, "utf-8")));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw new Error(`Failed to read selectors from ${file}: ${error.message}`);
+    }
+  }
+
+  const config = { ...DEFAULT_STEPS };
+  for (const step of NAVIGATION_STEPS) {
+    config[step] = { ...DEFAULT_STEPS[step], ...overrides[step] };
+  }
+  return config;
+}
+
+/**
+ * How often each step missed its selectors and needed the LLM, so the
+ * selectors can be fixed
+ */
+export type FallbackRecord = {
+  count: number;
+  lastAt: string;
+  lastUrl: string;
+};
+
+const FALLBACKS_FILE = "navigator-fallbacks.json";
+
+/**
+ * Where the fallback counts are kept, in the current account's data directory
+ */
+export function getFallbacksPath() {
+  return getDataPath(FALLBACKS_FILE);
+}
+
+export async function readFallbacks(): Promise<Partial<Record<NavigationStep, FallbackRecord>>> {
+  try {
+    return JSON.parse(await fs.readFile(await getFallbacksPath(), "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+async function recordFallback(step: NavigationStep, url: string) {
+  const fallbacks = await readFallbacks();
+  fallbacks[step] = { count: (fallbacks[step]?.count ?? 0) + 1, lastAt: new Date().toISOString(), lastUrl: url };
+  await writeFileAtomic(await getFallbacksPath(), JSON.stringify(fallbacks, null, 2));
+}
+
+/**
+ * Walks the portal with known selectors and real waits, only asking the LLM
+ * (`actWithCache`, or `act` for typed values) when a step's selectors miss.
+ * Every fallback is logged and recorded in navigator-fallbacks.json.
+ */
+export class Navigator {
+  // Steps that needed the LLM since the last reset, e.g. during one login
+  readonly fallbacks: NavigationStep[] = [];
+
+  constructor(
+    private page: Page,
+    private stagehand: Stagehand,
+    private config: Record<NavigationStep, NavigationStepConfig>,
+  ) {}
+
+  setConfig(config: Record<NavigationStep, NavigationStepConfig>) {
+    this.config = config;
+  }
+
+  resetFallbacks() {
+    this.fallbacks.length = 0;
+  }
+
+  /**
+   * Run one navigation step
+   * @param step - The step to run
+   * @param value - The text to type, for fill steps
+   */
+  async run(step: NavigationStep, value?: string) {
+    const { selectors, instruction, action, waitFor, timeoutMs } = this.config[step];
+    const target = await this.find(selectors, timeoutMs);
+
+    if (target) {
+      this.stagehand.log({ category: "navigation", message: `${step}: using selector` });
+      if (action === "fill") {
+        await target.fill(value ?? "");
+      } else {
+        await target.click({ timeout: timeoutMs });
+      }
+    } else {
+      this.stagehand.log({ category: "warning", message: `${step}: no selector matched, falling back to the LLM` });
+      this.fallbacks.push(step);
+      await recordFallback(step, this.page.url());
+      if (action === "fill") {
+        // Typed values change every time, so they can't be replayed from the cache
+        await this.page.act(instruction.replace("{value}", value ?? ""));
+      } else {
+        await actWithCache(this.page, instruction);
+      }
+    }
+
+    if (action === "click") {
+      await this.page.waitForLoadState("domcontentloaded", { timeout: timeoutMs });
+    }
+    if (waitFor) {
+      await this.page.waitForSelector(waitFor, { timeout: timeoutMs });
+    }
+  }
+
+  /**
+   * Check whether a step's target is on the page, without acting on it or
+   * falling back to the LLM
+   * @param step - The step whose selectors to look for
+   * @param timeoutMs - How long to wait for one to show up
+   */
+  async isVisible(step: NavigationStep, timeoutMs = 2_000) {
+    return (await this.find(this.config[step].selectors, timeoutMs)) !== null;
+  }
+
+  /**
+   * Wait for any of the selectors to be visible. They are all waited on at
+   * once so a miss only costs one timeout.
+   */
+  private async find(selectors: string[], timeoutMs: number) {
+    if (selectors.length === 0) return null;
+    const target = selectors
+      .map((selector) => this.page.locator(selector))
+      .reduce((any, locator) => any.or(locator))
+      .first();
+    try {
+      await target.waitFor({ state: "visible", timeout: Math.min(timeoutMs, 5_000) });
+      return target;
+    } catch {
+      return null;
+    }
+  }
+}
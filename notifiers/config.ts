@@ -0,0 +1,149 @@
+import fs from "fs/promises";
+import { z } from "zod";
+import { Notifier } from "./notifier.js";
+import { ResendNotifier } from "./resend_notifier.js";
+import { TelegramNotifier } from "./telegram_notifier.js";
+import { DiscordNotifier } from "./discord_notifier.js";
+import { SlackNotifier } from "./slack_notifier.js";
+import { WebhookNotifier } from "./webhook_notifier.js";
+import { NotificationPolicy, notificationPolicySchema } from "./policy.js";
+
+const enabled = z.boolean().optional();
+
+export const notifiersConfigSchema = z.object({
+  email: z
+    .object({ enabled, apiKey: z.string(), from: z.string(), to: z.array(z.string()).min(1) })
+    .partial()
+    .optional(),
+  telegram: z.object({ enabled, botToken: z.string(), chatId: z.string() }).partial().optional(),
+  discord: z.object({ enabled, webhookUrl: z.string().url() }).partial().optional(),
+  slack: z.object({ enabled, webhookUrl: z.string().url() }).partial().optional(),
+  webhook: z
+    .object({ enabled, url: z.string().url(), headers: z.record(z.string()) })
+    .partial()
+    .optional(),
+  policy: notificationPolicySchema.partial().optional(),
+});
+
+export type NotifiersConfig = z.infer<typeof notifiersConfigSchema>;
+
+function splitList(value: string | undefined) {
+  return value ? value.split(",").map((item) => item.trim()).filter(Boolean) : undefined;
+}
+
+/**
+ * Build the notifier config from env vars, e.g. TELEGRAM_BOT_TOKEN
+ */
+function configFromEnv(): NotifiersConfig {
+  const env = process.env;
+  return {
+    email: {
+      apiKey: env.RESEND_API_KEY || undefined,
+      from: env.EMAIL_FROM || "PEC Course Monitor <onboarding@resend.dev>",
+      to: splitList(env.EMAIL_TO),
+    },
+    telegram: { botToken: env.TELEGRAM_BOT_TOKEN || undefined, chatId: env.TELEGRAM_CHAT_ID || undefined },
+    discord: { webhookUrl: env.DISCORD_WEBHOOK_URL || undefined },
+    slack: { webhookUrl: env.SLACK_WEBHOOK_URL || undefined },
+    webhook: {
+      url: env.WEBHOOK_URL || undefined,
+      headers: env.WEBHOOK_HEADERS ? JSON.parse(env.WEBHOOK_HEADERS) : undefined,
+    },
+    policy: {
+      dedupeMinutes: env.NOTIFY_DEDUPE_MINUTES ? Number(env.NOTIFY_DEDUPE_MINUTES) : undefined,
+      rateLimitPerHour: env.NOTIFY_RATE_LIMIT_PER_HOUR ? Number(env.NOTIFY_RATE_LIMIT_PER_HOUR) : undefined,
+      // "22:00-07:00"
+      quietHours: env.QUIET_HOURS
+        ? { from: env.QUIET_HOURS.split("-")[0]?.trim(), to: env.QUIET_HOURS.split("-")[1]?.trim() }
+        : undefined,
+      maxRetries: env.NOTIFY_MAX_RETRIES ? Number(env.NOTIFY_MAX_RETRIES) : undefined,
+    },
+  };
+}
+
+/**
+ * Merge a config section from the file over the one from env, ignoring
+ * keys the file leaves undefined
+ */
+function merge<T extends object>(fromEnv: T | undefined, fromFile: T | undefined): T {
+  const merged: any = { ...fromEnv };
+  for (const [key, value] of Object.entries(fromFile ?? {})) {
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged;
+}
+
+async function readConfigFile(): Promise<NotifiersConfig> {
+  const file = process.env.NOTIFIERS_FILE || "notifiers.json";
+  try {
+    return notifiersConfigSchema.parse(JSON.parse(await fs.readFile(file, "utf-8")));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw new Error(`Failed to read notifier config from ${file}: ${error.message}`);
+    }
+    return {};
+  }
+}
+
+const channels = ["email", "telegram", "discord", "slack", "webhook"] as const;
+
+/**
+ * Build the list of notification backends. Settings come from env vars,
+ * overridden per backend by NOTIFIERS_FILE (default: notifiers.json). A
+ * backend is enabled once its required settings are present, unless it is
+ * explicitly set to `"enabled": false`.
+ *
+ * An account that names any channels only gets those: the shared settings
+ * still fill in what it leaves out (API key, bot token), but a channel it
+ * doesn't mention stays off, so it never reaches the shared recipients.
+ * @param overrides - Per-account settings, merged over env and file
+ * @returns The enabled notifiers
+ */
+export async function loadNotifiers(overrides: NotifiersConfig = {}): Promise<Notifier[]> {
+  const fileConfig = await readConfigFile();
+  const envConfig = configFromEnv();
+  const exclusive = channels.some((channel) => overrides[channel]);
+  const own = <T extends object>(section: T | undefined) =>
+    section ?? (exclusive ? ({ enabled: false } as T) : undefined);
+  const email = merge(merge(envConfig.email, fileConfig.email), own(overrides.email));
+  const telegram = merge(merge(envConfig.telegram, fileConfig.telegram), own(overrides.telegram));
+  const discord = merge(merge(envConfig.discord, fileConfig.discord), own(overrides.discord));
+  const slack = merge(merge(envConfig.slack, fileConfig.slack), own(overrides.slack));
+  const webhook = merge(merge(envConfig.webhook, fileConfig.webhook), own(overrides.webhook));
+
+  const notifiers: Notifier[] = [];
+
+  if (email.enabled !== false && email.apiKey && email.from && email.to?.length) {
+    // One notifier per address, so each recipient gets its own rate limit
+    for (const to of email.to) {
+      notifiers.push(new ResendNotifier({ apiKey: email.apiKey, from: email.from, to: [to] }));
+    }
+  }
+  if (telegram.enabled !== false && telegram.botToken && telegram.chatId) {
+    notifiers.push(new TelegramNotifier({ botToken: telegram.botToken, chatId: telegram.chatId }));
+  }
+  if (discord.enabled !== false && discord.webhookUrl) {
+    notifiers.push(new DiscordNotifier({ webhookUrl: discord.webhookUrl }));
+  }
+  if (slack.enabled !== false && slack.webhookUrl) {
+    notifiers.push(new SlackNotifier({ webhookUrl: slack.webhookUrl }));
+  }
+  if (webhook.enabled !== false && webhook.url) {
+    notifiers.push(new WebhookNotifier({ url: webhook.url, headers: webhook.headers }));
+  }
+
+  return notifiers;
+}
+
+/**
+ * Load the notification policy (dedupe window, rate limit, quiet hours,
+ * retries) from NOTIFY_* env vars and QUIET_HOURS, overridden by the `policy`
+ * section of NOTIFIERS_FILE and then per account
+ * @param overrides - Per-account settings
+ * @returns The validated policy
+ */
+export async function loadNotificationPolicy(overrides: NotifiersConfig = {}): Promise<NotificationPolicy> {
+  const fileConfig = await readConfigFile();
+  const policy = merge(merge(configFromEnv().policy, fileConfig.policy), overrides.policy);
+  return notificationPolicySchema.parse(policy);
+}
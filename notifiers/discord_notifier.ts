@@ -0,0 +1,33 @@
+import { Notification, Notifier, attachmentToBlob, postForm, postJson } from "./notifier.js";
+
+// Discord rejects message content longer than this
+const MAX_CONTENT_LENGTH = 2000;
+
+export class DiscordNotifier implements Notifier {
+  public readonly name = "discord";
+  private webhookUrl: string;
+
+  constructor({ webhookUrl }: { webhookUrl: string }) {
+    this.webhookUrl = webhookUrl;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const content = `**${notification.subject}**\n${notification.markdown ?? notification.text}`;
+    const payload = {
+      username: "PEC Course Monitor",
+      content: content.slice(0, MAX_CONTENT_LENGTH),
+    };
+
+    if (!notification.attachments?.length) {
+      await postJson(this.webhookUrl, payload);
+      return;
+    }
+
+    const form = new FormData();
+    form.append("payload_json", JSON.stringify(payload));
+    notification.attachments.forEach((attachment, i) => {
+      form.append(`files[${i}]`, attachmentToBlob(attachment), attachment.filename);
+    });
+    await postForm(this.webhookUrl, form);
+  }
+}
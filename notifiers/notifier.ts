@@ -0,0 +1,89 @@
+/**
+ * A message the monitor wants delivered. Backends pick the format they
+ * support best: email uses `html`, chat backends use `markdown` when they
+ * render it and `text` otherwise.
+ */
+export type Notification = {
+  subject: string;
+  text: string;
+  html: string;
+  markdown?: string;
+  attachments?: Attachment[];
+  // Sent even in quiet hours or over the rate limit (see policy.ts)
+  urgent?: boolean;
+};
+
+export type Attachment = {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+};
+
+export interface Notifier {
+  /** Short name used in logs, e.g. "telegram" */
+  readonly name: string;
+  /** Who it reaches, for per-recipient limits; defaults to the name */
+  readonly recipient?: string;
+  /** Deliver the notification, throwing if the backend rejected it */
+  send(notification: Notification): Promise<void>;
+}
+
+export type NotifyResult = {
+  notifier: string;
+  ok: boolean;
+  error?: string;
+};
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/**
+ * POST a JSON body and throw if the response isn't 2xx. Requests time out so
+ * a hanging backend can't hold up the monitor loop.
+ * @param url - The endpoint to POST to
+ * @param body - The JSON body
+ * @param headers - Extra request headers
+ * @returns The parsed response body, or null if it wasn't JSON
+ */
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<any> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!res.ok) {
+    const detail = await res.text().catch(() => "");
+    throw new Error(`HTTP ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+  }
+  return res.json().catch(() => null);
+}
+
+/**
+ * POST a multipart form (for backends that take file uploads) and throw if
+ * the response isn't 2xx
+ * @param url - The endpoint to POST to
+ * @param form - The form fields and files
+ * @returns The parsed response body, or null if it wasn't JSON
+ */
+export async function postForm(url: string, form: FormData): Promise<any> {
+  const res = await fetch(url, {
+    method: "POST",
+    body: form,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!res.ok) {
+    const detail = await res.text().catch(() => "");
+    throw new Error(`HTTP ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+  }
+  return res.json().catch(() => null);
+}
+
+export function attachmentToBlob(attachment: Attachment): Blob {
+  return new Blob([new Uint8Array(attachment.content)], { type: attachment.contentType });
+}
@@ -0,0 +1,326 @@
+import { createHash, randomUUID } from "crypto";
+import fs from "fs/promises";
+import chalk from "chalk";
+import { z } from "zod";
+import { recordNotification } from "../metrics.js";
+import { getDataPath, writeFileAtomic } from "../utils.js";
+import { Notification, Notifier, NotifyResult } from "./notifier.js";
+
+const timeOfDay = z.string().regex(/^\d{2}:\d{2}$/, "Times look like 22:00");
+
+export const notificationPolicySchema = z.object({
+  // The same alert (subject + text) to the same recipient within this many minutes is dropped
+  dedupeMinutes: z.number().min(0).default(60),
+  // More than this many alerts to one recipient in an hour are held back
+  rateLimitPerHour: z.number().int().positive().default(6),
+  // Non-urgent alerts are held until quiet hours end; may wrap past midnight
+  quietHours: z.object({ from: timeOfDay, to: timeOfDay }).nullable().default(null),
+  // Failed sends are retried with backoff this many times, then dropped
+  maxRetries: z.number().int().min(0).default(8),
+  // Held alerts older than this are dropped: a stale alert is worse than none
+  maxAgeHours: z.number().positive().default(24),
+});
+
+export type NotificationPolicy = z.infer<typeof notificationPolicySchema>;
+
+export type DeliveryStatus = "sent" | "failed" | "duplicate" | "quiet_hours" | "rate_limited";
+
+export type DeliveryResult = NotifyResult & { status: DeliveryStatus };
+
+type StoredNotification = Omit<Notification, "attachments"> & {
+  attachments?: { filename: string; contentType: string; content: string }[]; // base64
+};
+
+/**
+ * An alert waiting to go out to one recipient: held back by quiet hours or
+ * the rate limit, or waiting to be retried after a failed send
+ */
+type OutboxEntry = {
+  id: string;
+  recipient: string;
+  hash: string;
+  notification: StoredNotification;
+  reason: Exclude<DeliveryStatus, "sent" | "duplicate">;
+  createdAt: string;
+  nextAttemptAt: string;
+  attempts: number;
+  lastError?: string;
+};
+
+type SentEntry = { recipient: string; hash: string; sentAt: string };
+
+type NotificationState = { sent: SentEntry[]; outbox: OutboxEntry[] };
+
+const STATE_FILE = "notifications.json";
+
+async function readState(): Promise<NotificationState> {
+  try {
+    return { sent: [], outbox: [], ...JSON.parse(await fs.readFile(await getDataPath(STATE_FILE), "utf-8")) };
+  } catch {
+    return { sent: [], outbox: [] };
+  }
+}
+
+// Serialize read-modify-write cycles, like the action cache
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function updateState<T>(update: (state: NotificationState) => T | Promise<T>): Promise<T> {
+  const write = pendingWrite.then(async () => {
+    const state = await readState();
+    const result = await update(state);
+    await writeFileAtomic(await getDataPath(STATE_FILE), JSON.stringify(state, null, 2));
+    return result;
+  });
+  pendingWrite = write.catch(() => {});
+  return write;
+}
+
+function recipientOf(notifier: Notifier) {
+  return notifier.recipient ?? notifier.name;
+}
+
+/**
+ * Hash what the reader sees, not when it was sent: the text leaves out the
+ * check's own timestamp, so a retried check produces the same hash
+ */
+function hashNotification(notification: Notification) {
+  return createHash("sha256").update(`${notification.subject}\n${notification.text}`).digest("hex");
+}
+
+function minutesOfDay(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check whether a moment falls in quiet hours, and when they end
+ * @returns The end of the current quiet hours, or null outside them
+ */
+export function quietHoursEnd(policy: NotificationPolicy, now = new Date()): Date | null {
+  if (!policy.quietHours) return null;
+  const from = minutesOfDay(policy.quietHours.from);
+  const to = minutesOfDay(policy.quietHours.to);
+  const current = now.getHours() * 60 + now.getMinutes();
+  const inside = from <= to ? current >= from && current < to : current >= from || current < to;
+  if (!inside) return null;
+
+  const end = new Date(now);
+  end.setHours(Math.floor(to / 60), to % 60, 0, 0);
+  if (end <= now) end.setDate(end.getDate() + 1);
+  return end;
+}
+
+function retryDelayMs(attempts: number) {
+  return Math.min(60_000 * 2 ** (attempts - 1), 60 * 60_000);
+}
+
+function serialize(notification: Notification): StoredNotification {
+  return {
+    ...notification,
+    attachments: notification.attachments?.map((attachment) => ({
+      ...attachment,
+      content: attachment.content.toString("base64"),
+    })),
+  };
+}
+
+function deserialize(notification: StoredNotification): Notification {
+  return {
+    ...notification,
+    attachments: notification.attachments?.map((attachment) => ({
+      ...attachment,
+      content: Buffer.from(attachment.content, "base64"),
+    })),
+  };
+}
+
+/**
+ * Decide whether an alert may go to a recipient right now
+ * @returns null to send it, otherwise why not and until when
+ */
+function checkPolicy(
+  state: NotificationState,
+  policy: NotificationPolicy,
+  recipient: string,
+  notification: Notification,
+  hash: string,
+  now: Date,
+): { status: "duplicate" | "quiet_hours" | "rate_limited"; until: Date } | null {
+  const dedupeSince = now.getTime() - policy.dedupeMinutes * 60_000;
+  const isDuplicate =
+    state.sent.some((sent) => sent.recipient === recipient && sent.hash === hash && new Date(sent.sentAt).getTime() > dedupeSince) ||
+    state.outbox.some((entry) => entry.recipient === recipient && entry.hash === hash);
+  if (isDuplicate) return { status: "duplicate", until: now };
+
+  // Urgent alerts (a course opening up) are worth waking up for
+  if (notification.urgent) return null;
+
+  const quietUntil = quietHoursEnd(policy, now);
+  if (quietUntil) return { status: "quiet_hours", until: quietUntil };
+
+  const hourAgo = now.getTime() - 60 * 60_000;
+  const recent = state.sent
+    .filter((sent) => sent.recipient === recipient && new Date(sent.sentAt).getTime() > hourAgo)
+    .map((sent) => new Date(sent.sentAt).getTime())
+    .sort((a, b) => a - b);
+  if (recent.length >= policy.rateLimitPerHour) {
+    return { status: "rate_limited", until: new Date(recent[recent.length - policy.rateLimitPerHour] + 60 * 60_000) };
+  }
+  return null;
+}
+
+function pruneSent(state: NotificationState, policy: NotificationPolicy, now: Date) {
+  const keepSince = now.getTime() - Math.max(policy.dedupeMinutes, 60) * 60_000;
+  state.sent = state.sent.filter((sent) => new Date(sent.sentAt).getTime() > keepSince);
+}
+
+/**
+ * Send to one recipient, recording the send or queueing a retry
+ */
+async function sendOne(
+  notifier: Notifier,
+  notification: Notification,
+  hash: string,
+  policy: NotificationPolicy,
+  entry?: OutboxEntry,
+): Promise<DeliveryResult> {
+  const recipient = recipientOf(notifier);
+  try {
+    await notifier.send(notification);
+  } catch (error: any) {
+    recordNotification(notifier.name, false);
+    const message = error?.message ?? String(error);
+    const attempts = (entry?.attempts ?? 0) + 1;
+    const now = new Date();
+    await updateState((state) => {
+      state.outbox = state.outbox.filter((queued) => queued.id !== entry?.id);
+      if (attempts > policy.maxRetries) return;
+      state.outbox.push({
+        id: entry?.id ?? randomUUID(),
+        recipient,
+        hash,
+        notification: serialize(notification),
+        reason: "failed",
+        createdAt: entry?.createdAt ?? now.toISOString(),
+        nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+        attempts,
+        lastError: message,
+      });
+    });
+    console.log(
+      chalk.red(`❌ Failed to send notification via ${notifier.name}: ${message}`) +
+        (attempts > policy.maxRetries ? chalk.red(" (giving up)") : chalk.yellow(` (retry ${attempts}/${policy.maxRetries} queued)`)),
+    );
+    return { notifier: notifier.name, ok: false, status: "failed", error: message };
+  }
+
+  recordNotification(notifier.name, true);
+  const now = new Date();
+  await updateState((state) => {
+    state.outbox = state.outbox.filter((queued) => queued.id !== entry?.id);
+    state.sent.push({ recipient, hash, sentAt: now.toISOString() });
+    pruneSent(state, policy, now);
+  });
+  console.log(chalk.green(`✅ Notification sent via ${notifier.name}`));
+  return { notifier: notifier.name, ok: true, status: "sent" };
+}
+
+/**
+ * Send a notification through every backend, subject to the policy: repeats
+ * are dropped, and alerts that aren't urgent wait out quiet hours and the
+ * per-recipient rate limit in the outbox. Failed sends are queued for retry.
+ * The outbox is persisted, so held alerts survive a restart.
+ * @param notifiers - The backends to fan out to
+ * @param notification - The notification to send
+ * @param policy - Dedupe window, rate limit, quiet hours and retries
+ * @returns One result per backend
+ */
+export async function deliver(
+  notifiers: Notifier[],
+  notification: Notification,
+  policy: NotificationPolicy,
+): Promise<DeliveryResult[]> {
+  const hash = hashNotification(notification);
+
+  return Promise.all(
+    notifiers.map(async (notifier): Promise<DeliveryResult> => {
+      const recipient = recipientOf(notifier);
+      const now = new Date();
+      const held = await updateState((state) => {
+        const decision = checkPolicy(state, policy, recipient, notification, hash, now);
+        if (decision && decision.status !== "duplicate") {
+          state.outbox.push({
+            id: randomUUID(),
+            recipient,
+            hash,
+            notification: serialize(notification),
+            reason: decision.status,
+            createdAt: now.toISOString(),
+            nextAttemptAt: decision.until.toISOString(),
+            attempts: 0,
+          });
+        }
+        return decision;
+      });
+
+      if (!held) return sendOne(notifier, notification, hash, policy);
+      if (held.status === "duplicate") {
+        console.log(chalk.gray(`🔁 Skipped a repeated notification via ${notifier.name}`));
+      } else {
+        console.log(
+          chalk.yellow(`🔕 Holding notification via ${notifier.name} until ${held.until.toLocaleTimeString()} (${held.status.replace("_", " ")})`),
+        );
+      }
+      return { notifier: notifier.name, ok: false, status: held.status };
+    }),
+  );
+}
+
+/**
+ * Send whatever in the outbox is due: held alerts whose quiet hours or rate
+ * limit have passed, and retries whose backoff is over. Alerts for backends
+ * that are no longer configured wait until they expire.
+ * @param notifiers - The configured backends
+ * @param policy - The current policy
+ * @returns One result per alert that was attempted
+ */
+export async function flushOutbox(notifiers: Notifier[], policy: NotificationPolicy): Promise<DeliveryResult[]> {
+  const now = new Date();
+  const expireBefore = now.getTime() - policy.maxAgeHours * 3_600_000;
+
+  const due = await updateState((state) => {
+    const expired = state.outbox.filter((entry) => new Date(entry.createdAt).getTime() < expireBefore);
+    if (expired.length) {
+      console.log(chalk.yellow(`🗑️ Dropped ${expired.length} notification(s) older than ${policy.maxAgeHours}h from the outbox`));
+    }
+    state.outbox = state.outbox.filter((entry) => !expired.includes(entry));
+    return state.outbox.filter((entry) => new Date(entry.nextAttemptAt) <= now);
+  });
+
+  const results: DeliveryResult[] = [];
+  for (const entry of due) {
+    const notifier = notifiers.find((candidate) => recipientOf(candidate) === entry.recipient);
+    if (!notifier) continue;
+    const notification = deserialize(entry.notification);
+
+    // Held alerts go through the policy again: quiet hours may have been moved
+    if (entry.reason !== "failed") {
+      const held = await updateState((state) => {
+        const others = { ...state, outbox: state.outbox.filter((queued) => queued.id !== entry.id) };
+        const decision = checkPolicy(others, policy, entry.recipient, notification, entry.hash, now);
+        const queued = state.outbox.find((candidate) => candidate.id === entry.id);
+        if (decision?.status === "duplicate") {
+          state.outbox = others.outbox;
+        } else if (decision && queued) {
+          queued.reason = decision.status;
+          queued.nextAttemptAt = decision.until.toISOString();
+        }
+        return decision;
+      });
+      if (held) continue;
+    }
+
+    results.push(await sendOne(notifier, notification, entry.hash, policy, entry));
+  }
+  return results;
+}
@@ -0,0 +1,46 @@
+import { Notification, Notifier, postJson } from "./notifier.js";
+
+export class ResendNotifier implements Notifier {
+  public readonly name = "email";
+  public readonly recipient: string;
+  private apiKey: string;
+  private from: string;
+  private to: string[];
+
+  constructor({ apiKey, from, to }: { apiKey: string; from: string; to: string[] }) {
+    this.apiKey = apiKey;
+    this.from = from;
+    this.to = to;
+    this.recipient = `email:${to.join(",")}`;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    // One email per recipient so addresses aren't shared between people
+    const failures: string[] = [];
+    for (const email of this.to) {
+      try {
+        await postJson(
+          "https://api.resend.com/emails",
+          {
+            from: this.from,
+            to: [email],
+            subject: notification.subject,
+            html: notification.html,
+            text: notification.text,
+            attachments: notification.attachments?.map((attachment) => ({
+              filename: attachment.filename,
+              content: attachment.content.toString("base64"),
+            })),
+          },
+          { Authorization: `Bearer ${this.apiKey}` },
+        );
+      } catch (error: any) {
+        failures.push(`${email} (${error.message})`);
+      }
+    }
+
+    if (failures.length) {
+      throw new Error(`Failed to email ${failures.join(", ")}`);
+    }
+  }
+}
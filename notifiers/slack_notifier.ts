@@ -0,0 +1,20 @@
+import { Notification, Notifier, postJson } from "./notifier.js";
+
+export class SlackNotifier implements Notifier {
+  public readonly name = "slack";
+  private webhookUrl: string;
+
+  constructor({ webhookUrl }: { webhookUrl: string }) {
+    this.webhookUrl = webhookUrl;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    // Incoming webhooks can't upload files, so only mention attachments by name
+    const attachmentNote = notification.attachments?.length
+      ? `\n_Attachments (see email or disk): ${notification.attachments.map((a) => a.filename).join(", ")}_`
+      : "";
+    await postJson(this.webhookUrl, {
+      text: `*${notification.subject}*\n${notification.text}${attachmentNote}`,
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import chalk from "chalk";
+import { Attachment, Notification, Notifier, attachmentToBlob, postForm, postJson } from "./notifier.js";
+
+// Telegram rejects messages longer than this
+const MAX_MESSAGE_LENGTH = 4096;
+
+export class TelegramNotifier implements Notifier {
+  public readonly name = "telegram";
+  public readonly recipient: string;
+  // Public so replies can be polled once per bot
+  public readonly botToken: string;
+  private chatId: string;
+
+  constructor({ botToken, chatId }: { botToken: string; chatId: string }) {
+    this.botToken = botToken;
+    this.chatId = chatId;
+    this.recipient = `telegram:${chatId}`;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const text = `${notification.subject}\n\n${notification.text}`;
+    await postJson(`https://api.telegram.org/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: text.slice(0, MAX_MESSAGE_LENGTH),
+      disable_web_page_preview: true,
+    });
+
+    // The text is out: a failed attachment must not make the policy retry (and repeat) it
+    for (const attachment of notification.attachments ?? []) {
+      await this.sendAttachment(attachment).catch((error) =>
+        console.log(chalk.yellow(`⚠️ Telegram: couldn't send ${attachment.filename}: ${error.message}`)),
+      );
+    }
+  }
+
+  private async sendAttachment(attachment: Attachment) {
+    const form = new FormData();
+    form.append("chat_id", this.chatId);
+    if (attachment.contentType.startsWith("image/")) {
+      form.append("photo", attachmentToBlob(attachment), attachment.filename);
+      await postForm(`https://api.telegram.org/bot${this.botToken}/sendPhoto`, form);
+    } else {
+      form.append("document", attachmentToBlob(attachment), attachment.filename);
+      await postForm(`https://api.telegram.org/bot${this.botToken}/sendDocument`, form);
+    }
+  }
+
+  /**
+   * Fetch the text messages sent to the bot in this chat, long-polling
+   * briefly when there are none yet. Used to take replies, e.g. CAPTCHA
+   * answers.
+   * @param offset - The update id to start from (the previous call's nextOffset)
+   * @returns The replies, and the offset to pass next time
+   */
+  async getReplies(offset?: number): Promise<{ replies: string[]; nextOffset?: number }> {
+    const { result } = await postJson(`https://api.telegram.org/bot${this.botToken}/getUpdates`, {
+      offset,
+      timeout: 10, // seconds, under postJson's request timeout
+      allowed_updates: ["message"],
+    });
+    const updates: any[] = result ?? [];
+    return {
+      replies: updates
+        .filter((update) => String(update.message?.chat?.id) === this.chatId && update.message?.text)
+        .map((update) => update.message.text),
+      nextOffset: updates.length ? updates[updates.length - 1].update_id + 1 : offset,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Notification, Notifier, postJson } from "./notifier.js";
+
+/**
+ * Posts the whole notification as JSON to any URL, for wiring the monitor
+ * into things we don't have a dedicated backend for
+ */
+export class WebhookNotifier implements Notifier {
+  public readonly name = "webhook";
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor({ url, headers = {} }: { url: string; headers?: Record<string, string> }) {
+    this.url = url;
+    this.headers = headers;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await postJson(
+      this.url,
+      {
+        ...notification,
+        attachments: notification.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          content: attachment.content.toString("base64"),
+        })),
+        sentAt: new Date().toISOString(),
+      },
+      this.headers,
+    );
+  }
+}
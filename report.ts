@@ -0,0 +1,349 @@
+import fs from "fs/promises";
+import path from "path";
+import { CourseChange, describeChange, getChangedCourse } from "./changes.js";
+import type { CourseRow } from "./courses.js";
+import { describeWatchedCourse, WatchedCourseStatus } from "./watchlist.js";
+
+/**
+ * Everything one check found, before it's turned into a message
+ */
+export type CourseReport = {
+  account: string | null; // set when several accounts are monitored
+  checkedAt: Date;
+  previousCheckAt: Date | null;
+  watched: WatchedCourseStatus[];
+  changes: CourseChange[];
+  courses: CourseRow[];
+};
+
+export type RenderedReport = {
+  subject: string;
+  text: string;
+  html: string;
+  markdown: string;
+  urgent: boolean; // a course can be picked now
+};
+
+export const TEMPLATE_FILES = {
+  subject: "subject.txt",
+  text: "report.txt",
+  html: "report.html",
+  markdown: "report.md",
+} as const;
+
+type Format = keyof typeof TEMPLATE_FILES;
+
+export const DEFAULT_TEMPLATES: Record<Format, string> = {
+  subject: `PEC Course Monitor - {{headline}}{{#account}} ({{account}}){{/account}}`,
+
+  text: `{{changeCount}} change(s) since the last check at {{previousCheckAt}}:
+{{#changes}}
+- {{courseCode}} {{courseName}}: {{description}}
+{{/changes}}
+{{#hasWatched}}
+
+Watchlist:
+{{#watched}}
+- {{course}} {{courseName}}: {{#isSelectable}}SELECTABLE{{/isSelectable}}{{^isSelectable}}not selectable{{/isSelectable}} ({{checkbox}})
+{{/watched}}
+{{/hasWatched}}
+`,
+
+  html: `<h2>🔔 PEC Course Monitor Alert</h2>
+<p><strong>Timestamp:</strong> {{checkedAt}}</p>
+<p><strong>Previous check:</strong> {{previousCheckAt}}</p>
+
+<h3>Changes since last check ({{changeCount}})</h3>
+<table border="1" style="border-collapse: collapse; width: 100%;">
+  <thead>
+    <tr style="background-color: #f0f0f0;">
+      <th style="padding: 8px; text-align: left;">Course Code</th>
+      <th style="padding: 8px; text-align: left;">Course Name</th>
+      <th style="padding: 8px; text-align: left;">Change</th>
+      <th style="padding: 8px; text-align: center;">Selectable</th>
+    </tr>
+  </thead>
+  <tbody>
+{{#changes}}
+    <tr>
+      <td style="padding: 8px; border: 1px solid #ddd;">{{courseCode}}</td>
+      <td style="padding: 8px; border: 1px solid #ddd;">{{courseName}}</td>
+      <td style="padding: 8px; border: 1px solid #ddd;{{#becameSelectable}} color: green;{{/becameSelectable}}">{{description}}</td>
+      <td style="padding: 8px; border: 1px solid #ddd; text-align: center; color: {{#isSelectable}}green{{/isSelectable}}{{^isSelectable}}red{{/isSelectable}};">{{selectable}}</td>
+    </tr>
+{{/changes}}
+  </tbody>
+</table>
+
+{{#watched}}
+<h3>🎯 {{priority}} Priority Course: {{course}} {{courseName}}</h3>
+<ul>
+  <li><strong>Visible:</strong> {{visible}}</li>
+  <li><strong>Selectable:</strong> {{selectable}}</li>
+  <li><strong>Checkbox State:</strong> {{checkbox}}</li>
+</ul>
+{{/watched}}
+
+<details>
+  <summary>All courses on the page ({{courseCount}})</summary>
+  <table border="1" style="border-collapse: collapse; width: 100%;">
+{{#courses}}
+    <tr>
+      <td style="padding: 4px;">{{courseCode}}</td>
+      <td style="padding: 4px;">{{courseName}}</td>
+      <td style="padding: 4px; color: {{#isSelectable}}green{{/isSelectable}}{{^isSelectable}}red{{/isSelectable}};">{{selectable}}</td>
+      <td style="padding: 4px;">{{checkbox}}</td>
+      <td style="padding: 4px;">{{seats}}</td>
+    </tr>
+{{/courses}}
+  </table>
+</details>
+
+<p><em>This is an automated alert from your PEC Course Monitor Scout.</em></p>
+`,
+
+  markdown: `**{{changeCount}} change(s)** since {{previousCheckAt}}
+{{#changes}}
+- **{{courseCode}}** {{courseName}}: {{description}}
+{{/changes}}
+{{#hasWatched}}
+
+**Watchlist**
+{{#watched}}
+- {{#isSelectable}}✅{{/isSelectable}}{{^isSelectable}}❌{{/isSelectable}} **{{course}}** {{courseName}} ({{checkbox}})
+{{/watched}}
+{{/hasWatched}}
+`,
+};
+
+export function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Only what changes formatting mid-line; quotes and headings only start a line
+export function escapeMarkdown(text: string) {
+  return text.replace(/[\\`*_~|\[\]]/g, "\\$&").replace(/^[>#]/, "\\$&");
+}
+
+const ESCAPES: Record<Format, (text: string) => string> = {
+  subject: (text) => text.replace(/\s+/g, " "),
+  text: (text) => text,
+  html: escapeHtml,
+  markdown: escapeMarkdown,
+};
+
+type Token =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string; raw: boolean }
+  | { type: "section"; name: string; inverted: boolean; children: Token[] };
+
+/**
+ * Parse a Mustache-style template: {{name}} (escaped), {{{name}}} (raw),
+ * {{#name}}...{{/name}} (repeated for lists, shown when truthy) and
+ * {{^name}}...{{/name}} (shown when falsy or empty)
+ */
+function parseTemplate(template: string): Token[] {
+  // Section tags on a line of their own don't leave a blank line behind
+  const source = template.replace(/^[ \t]*(\{\{[#^/][^}]*\}\})[ \t]*\r?\n/gm, "$1");
+  const root: Token[] = [];
+  const stack: { name: string; children: Token[] }[] = [{ name: "", children: root }];
+  const tag = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([#^/]?)\s*([\w.]+)\s*\}\}/g;
+
+  let last = 0;
+  for (const match of source.matchAll(tag)) {
+    const children = stack[stack.length - 1].children;
+    if (match.index > last) children.push({ type: "text", value: source.slice(last, match.index) });
+    last = match.index + match[0].length;
+
+    const [, rawName, sigil, name] = match;
+    if (rawName) {
+      children.push({ type: "var", name: rawName, raw: true });
+    } else if (sigil === "#" || sigil === "^") {
+      const section: Token = { type: "section", name, inverted: sigil === "^", children: [] };
+      children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (sigil === "/") {
+      if (stack.length === 1 || stack[stack.length - 1].name !== name) {
+        throw new Error(`Unexpected {{/${name}}} in template`);
+      }
+      stack.pop();
+    } else {
+      children.push({ type: "var", name, raw: false });
+    }
+  }
+  if (stack.length > 1) throw new Error(`Unclosed {{#${stack[stack.length - 1].name}}} in template`);
+  if (last < source.length) root.push({ type: "text", value: source.slice(last) });
+  return root;
+}
+
+function lookup(contexts: unknown[], name: string): unknown {
+  if (name === ".") return contexts[contexts.length - 1];
+  const [first, ...rest] = name.split(".");
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    const context = contexts[i];
+    if (context && typeof context === "object" && first in context) {
+      return rest.reduce<any>((value, key) => value?.[key], (context as any)[first]);
+    }
+  }
+  return undefined;
+}
+
+function renderTokens(tokens: Token[], contexts: unknown[], escape: (text: string) => string): string {
+  return tokens
+    .map((token) => {
+      if (token.type === "text") return token.value;
+
+      const value = lookup(contexts, token.name);
+      if (token.type === "var") {
+        const text = value === undefined || value === null ? "" : String(value);
+        return token.raw ? text : escape(text);
+      }
+
+      const items = Array.isArray(value) ? value : value ? [value] : [];
+      if (token.inverted) return items.length ? "" : renderTokens(token.children, contexts, escape);
+      return items.map((item) => renderTokens(token.children, [...contexts, item], escape)).join("");
+    })
+    .join("");
+}
+
+/**
+ * Render a template against a view, escaping every {{value}} for the format
+ * @param template - The template source
+ * @param view - The values it can refer to
+ * @param format - Which escaping to apply
+ */
+export function renderTemplate(template: string, view: object, format: Format): string {
+  return renderTokens(parseTemplate(template), [view], ESCAPES[format]);
+}
+
+// Most important first: a watched course opening up is what people wait for
+const CHANGE_PRIORITY: CourseChange["type"][] = ["became_selectable", "added", "checkbox_changed", "removed"];
+
+/**
+ * Sum up a report in one line, e.g. "CS6701 is now SELECTABLE" or
+ * "CS6701, MM6006 are now SELECTABLE (+1 more change)"
+ */
+export function buildHeadline(report: CourseReport): string {
+  if (report.changes.length === 0) return "No changes";
+
+  const watched = new Set(report.watched.map((status) => status.courseCode));
+  const rank = (change: CourseChange) =>
+    CHANGE_PRIORITY.indexOf(change.type) * 2 + (watched.has(getChangedCourse(change).courseCode) ? 0 : 1);
+  const ranked = [...report.changes].sort((a, b) => rank(a) - rank(b));
+
+  const selectable = ranked.filter((change) => change.type === "became_selectable");
+  let headline: string;
+  let covered: number;
+  if (selectable.length > 1) {
+    const codes = selectable.slice(0, 3).map((change) => getChangedCourse(change).courseCode);
+    headline = `${codes.join(", ")}${selectable.length > 3 ? " and others" : ""} are now SELECTABLE`;
+    covered = selectable.length;
+  } else {
+    headline = `${getChangedCourse(ranked[0]).courseCode} ${describeChange(ranked[0])}`;
+    covered = 1;
+  }
+
+  const more = report.changes.length - covered;
+  return more > 0 ? `${headline} (+${more} more change${more === 1 ? "" : "s"})` : headline;
+}
+
+const yesNo = (value: boolean) => (value ? "YES" : "NO");
+
+/**
+ * Flatten the report into the values templates can use
+ */
+export function buildReportView(report: CourseReport) {
+  return {
+    headline: buildHeadline(report),
+    account: report.account,
+    checkedAt: report.checkedAt.toLocaleString(),
+    previousCheckAt: report.previousCheckAt?.toLocaleString() ?? "never",
+    changeCount: report.changes.length,
+    changes: report.changes.map((change) => {
+      const course = getChangedCourse(change);
+      const isSelectable = change.type !== "removed" && course.isSelectable;
+      return {
+        type: change.type,
+        courseCode: course.courseCode,
+        courseName: course.courseName,
+        description: describeChange(change),
+        becameSelectable: change.type === "became_selectable",
+        isSelectable,
+        selectable: yesNo(isSelectable),
+      };
+    }),
+    hasWatched: report.watched.length > 0,
+    watched: report.watched.map((status) => ({
+      course: describeWatchedCourse(status),
+      courseCode: status.courseCode,
+      courseName: status.courseName,
+      priority: status.priority.toUpperCase(),
+      isSelectable: status.isSelectable,
+      visible: yesNo(status.isVisible),
+      selectable: yesNo(status.isSelectable),
+      checkbox: status.checkboxState.toUpperCase(),
+    })),
+    courseCount: report.courses.length,
+    courses: report.courses.map((course) => ({
+      ...course,
+      selectable: yesNo(course.isSelectable),
+      checkbox: course.checkboxState.toUpperCase(),
+      seats:
+        course.seatsAvailable === null
+          ? "-"
+          : `${course.seatsAvailable}${course.seatsTotal !== null ? `/${course.seatsTotal}` : ""}`,
+    })),
+  };
+}
+
+/**
+ * Load a set of templates, each file found in REPORT_TEMPLATES_DIR (default:
+ * templates) replacing the built-in one
+ * @param files - The file name of each template
+ * @param defaults - The built-in templates
+ * @returns The templates to render with
+ */
+export async function loadTemplateSet<K extends string>(
+  files: Record<K, string>,
+  defaults: Record<K, string>,
+): Promise<Record<K, string>> {
+  const dir = process.env.REPORT_TEMPLATES_DIR || "templates";
+  const templates = { ...defaults };
+  for (const key of Object.keys(files) as K[]) {
+    const file = path.join(dir, files[key]);
+    try {
+      templates[key] = await fs.readFile(file, "utf-8");
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw new Error(`Failed to read template from ${file}: ${error.message}`);
+      }
+    }
+  }
+  return templates;
+}
+
+/**
+ * Load the alert templates: subject.txt, report.txt, report.html and report.md
+ */
+export function loadTemplates(): Promise<Record<Format, string>> {
+  return loadTemplateSet(TEMPLATE_FILES, DEFAULT_TEMPLATES);
+}
+
+/**
+ * Render a report in every format the notifiers use
+ * @param report - What the check found
+ * @returns The subject, plain text, HTML and Markdown
+ */
+export async function renderReport(report: CourseReport): Promise<RenderedReport> {
+  const templates = await loadTemplates();
+  const view = buildReportView(report);
+  return {
+    subject: renderTemplate(templates.subject, view, "subject").trim(),
+    text: renderTemplate(templates.text, view, "text").trim(),
+    html: renderTemplate(templates.html, view, "html"),
+    markdown: renderTemplate(templates.markdown, view, "markdown").trim(),
+    urgent: report.changes.some(
+      (change) => change.type === "became_selectable" || (change.type === "added" && change.course.isSelectable),
+    ),
+  };
+}
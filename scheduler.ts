@@ -0,0 +1,245 @@
+import fs from "fs/promises";
+import { z } from "zod";
+import { formatDuration, getDataPath, writeFileAtomic } from "./utils.js";
+
+const backoffSchema = z.object({
+  baseSeconds: z.number().positive(),
+  maxMinutes: z.number().positive(),
+});
+
+// Failure reasons that need their own pace. A rejected password won't fix
+// itself in a minute, and retrying it quickly is how accounts get locked.
+const DEFAULT_REASON_BACKOFF: Record<string, z.infer<typeof backoffSchema>> = {
+  wrong_captcha: { baseSeconds: 30, maxMinutes: 5 },
+  wrong_credentials: { baseSeconds: 1800, maxMinutes: 360 },
+  account_locked: { baseSeconds: 3600, maxMinutes: 720 },
+  portal_down: { baseSeconds: 120, maxMinutes: 30 },
+};
+
+const timeOfDay = z.string().regex(/^\d{2}:\d{2}$/, "Times look like 09:30");
+
+export const scheduleWindowSchema = z.object({
+  name: z.string(),
+  intervalMinutes: z.number().positive(),
+  // Absolute range, e.g. the add/drop period announced by the college
+  start: z.string().datetime({ local: true, offset: true }).optional(),
+  end: z.string().datetime({ local: true, offset: true }).optional(),
+  // Recurring range, e.g. office hours on weekdays (0 = Sunday)
+  days: z.array(z.number().int().min(0).max(6)).optional(),
+  from: timeOfDay.optional(),
+  to: timeOfDay.optional(),
+});
+
+export const scheduleConfigSchema = z.object({
+  defaultIntervalMinutes: z.number().positive().default(60),
+  // Random +/- spread applied to every interval so checks don't look robotic
+  jitterPercent: z.number().min(0).max(100).default(10),
+  windows: z.array(scheduleWindowSchema).default([]),
+  backoff: z
+    .object({
+      baseSeconds: z.number().positive().default(60),
+      maxMinutes: z.number().positive().default(30),
+      // Per failure reason (e.g. a login outcome), on top of DEFAULT_REASON_BACKOFF
+      reasons: z.record(z.string(), backoffSchema).default({}),
+    })
+    .default({}),
+  // Faster cadence for a while after any change is detected
+  burst: z
+    .object({
+      intervalMinutes: z.number().positive().default(1),
+      durationMinutes: z.number().min(0).default(30),
+    })
+    .default({}),
+});
+
+export type ScheduleWindow = z.infer<typeof scheduleWindowSchema>;
+export type ScheduleConfig = z.infer<typeof scheduleConfigSchema>;
+
+export type NextRun = {
+  at: Date;
+  delayMs: number;
+  reason: string;
+};
+
+/**
+ * What the scheduler persists so a restart picks up where it left off
+ */
+export type SchedulerState = {
+  consecutiveFailures: number;
+  lastFailureReason?: string | null;
+  // The failure reason someone was last alerted about in this streak
+  lastAlertedReason?: string | null;
+  burstUntil: string | null;
+  nextRunAt: string | null;
+};
+
+const STATE_FILE = "scheduler-state.json";
+
+export async function loadSchedulerState(): Promise<SchedulerState | null> {
+  try {
+    return JSON.parse(await fs.readFile(await getDataPath(STATE_FILE), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+export async function saveSchedulerState(state: SchedulerState) {
+  await writeFileAtomic(await getDataPath(STATE_FILE), JSON.stringify(state, null, 2));
+}
+
+/**
+ * Load the schedule from SCHEDULE_FILE (default: schedule.json). Without a
+ * file, checks run every CHECK_INTERVAL_MINUTES (default: 60).
+ * @returns The validated schedule config
+ */
+export async function loadScheduleConfig(): Promise<ScheduleConfig> {
+  const file = process.env.SCHEDULE_FILE || "schedule.json";
+  let raw: unknown = {};
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw new Error(`Failed to read schedule from ${file}: ${error.message}`);
+    }
+    if (process.env.CHECK_INTERVAL_MINUTES) {
+      raw = { defaultIntervalMinutes: Number(process.env.CHECK_INTERVAL_MINUTES) };
+    }
+  }
+  return scheduleConfigSchema.parse(raw);
+}
+
+function minutesOfDay(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check whether a moment falls inside a schedule window. Every constraint the
+ * window sets must match; `from`/`to` may wrap past midnight.
+ */
+export function isInWindow(window: ScheduleWindow, now: Date): boolean {
+  if (window.start && now < new Date(window.start)) return false;
+  if (window.end && now > new Date(window.end)) return false;
+  if (window.days && !window.days.includes(now.getDay())) return false;
+
+  if (window.from || window.to) {
+    const current = now.getHours() * 60 + now.getMinutes();
+    const from = minutesOfDay(window.from ?? "00:00");
+    const to = minutesOfDay(window.to ?? "24:00");
+    const inRange = from <= to ? current >= from && current < to : current >= from || current < to;
+    if (!inRange) return false;
+  }
+  return true;
+}
+
+/**
+ * Decides when the next check runs: the first matching time window sets the
+ * base interval, a detected change switches to the burst cadence for a while,
+ * and consecutive failures back off exponentially (how fast depends on why
+ * the last one failed).
+ */
+export class Scheduler {
+  private config: ScheduleConfig;
+  private consecutiveFailures = 0;
+  private lastFailureReason: string | null = null;
+  private lastAlertedReason: string | null = null;
+  private burstUntil: Date | null = null;
+
+  constructor(config: ScheduleConfig, state?: SchedulerState | null) {
+    this.config = config;
+    if (state) {
+      this.consecutiveFailures = state.consecutiveFailures;
+      this.lastFailureReason = state.lastFailureReason ?? null;
+      this.lastAlertedReason = state.lastAlertedReason ?? null;
+      this.burstUntil = state.burstUntil ? new Date(state.burstUntil) : null;
+    }
+  }
+
+  setConfig(config: ScheduleConfig) {
+    this.config = config;
+  }
+
+  get failures() {
+    return this.consecutiveFailures;
+  }
+
+  toState(next: NextRun | null): SchedulerState {
+    return {
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailureReason: this.lastFailureReason,
+      lastAlertedReason: this.lastAlertedReason,
+      burstUntil: this.burstUntil?.toISOString() ?? null,
+      nextRunAt: next?.at.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Record a successful check
+   * @param changed - Whether the check detected a change (starts a burst)
+   */
+  recordSuccess(changed: boolean, now = new Date()) {
+    this.consecutiveFailures = 0;
+    this.lastFailureReason = null;
+    this.lastAlertedReason = null;
+    if (changed && this.config.burst.durationMinutes > 0) {
+      this.burstUntil = new Date(now.getTime() + this.config.burst.durationMinutes * 60_000);
+    }
+  }
+
+  /**
+   * Record a failed check
+   * @param reason - Why it failed, picking the backoff from `backoff.reasons`
+   */
+  recordFailure(reason?: string) {
+    this.consecutiveFailures++;
+    this.lastFailureReason = reason ?? null;
+  }
+
+  /**
+   * Decide whether a failure is worth telling someone about: only the first
+   * time the streak fails for this reason, wherever in the streak that is
+   * @param reason - Why the check failed
+   * @returns Whether to alert (and it's then remembered as alerted)
+   */
+  shouldAlert(reason: string) {
+    if (this.lastAlertedReason === reason) return false;
+    this.lastAlertedReason = reason;
+    return true;
+  }
+
+  /**
+   * Work out when the next check should run
+   * @param now - The current time
+   * @returns The next run time, the delay until then, and why
+   */
+  nextRun(now = new Date()): NextRun {
+    let intervalMs: number;
+    let reason: string;
+
+    if (this.consecutiveFailures > 0) {
+      const reasonBackoff = this.lastFailureReason
+        ? (this.config.backoff.reasons[this.lastFailureReason] ?? DEFAULT_REASON_BACKOFF[this.lastFailureReason])
+        : undefined;
+      const { baseSeconds, maxMinutes } = reasonBackoff ?? this.config.backoff;
+      intervalMs = Math.min(baseSeconds * 1000 * 2 ** (this.consecutiveFailures - 1), maxMinutes * 60_000);
+      reason =
+        `backoff after ${this.consecutiveFailures} failure(s)` +
+        (this.lastFailureReason ? `, last: ${this.lastFailureReason.replace(/_/g, " ")}` : "");
+    } else if (this.burstUntil && now < this.burstUntil) {
+      intervalMs = this.config.burst.intervalMinutes * 60_000;
+      reason = `burst until ${this.burstUntil.toLocaleTimeString()}`;
+    } else {
+      const window = this.config.windows.find((w) => isInWindow(w, now));
+      intervalMs = (window?.intervalMinutes ?? this.config.defaultIntervalMinutes) * 60_000;
+      reason = window ? `window "${window.name}"` : "default interval";
+    }
+
+    const jitter = (this.config.jitterPercent / 100) * intervalMs;
+    const delayMs = Math.max(1000, Math.round(intervalMs + (Math.random() * 2 - 1) * jitter));
+    return { at: new Date(now.getTime() + delayMs), delayMs, reason };
+  }
+}
+
+export function describeNextRun(next: NextRun) {
+  return `Next check at ${next.at.toLocaleString()} (in ${formatDuration(next.delayMs)}, ${next.reason})`;
+}
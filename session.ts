@@ -0,0 +1,91 @@
+import { BrowserContext, Page } from "@browserbasehq/stagehand";
+import fs from "fs/promises";
+import { parseAddDropTable } from "./courses.js";
+import { getDataPath, writeFileAtomic } from "./utils.js";
+
+type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+/**
+ * What we persist between runs: the browser's cookies/storage and where the
+ * Add/Drop page lives, so a live session can go straight there
+ */
+export type SavedSession = {
+  savedAt: string;
+  addDropUrl: string;
+  storageState: StorageState;
+};
+
+const SESSION_FILE = "session.json";
+
+/**
+ * Session reuse is on unless REUSE_SESSION=false, which restores the old
+ * log-in/log-out-every-check behaviour
+ */
+export function isSessionReuseEnabled() {
+  return process.env.REUSE_SESSION !== "false";
+}
+
+/**
+ * Load the saved session and put its cookies back into the browser context
+ * @param context - The browser context to restore into
+ * @returns The saved session, or null if there isn't one
+ */
+export async function restoreSession(context: BrowserContext): Promise<SavedSession | null> {
+  let session: SavedSession;
+  try {
+    session = JSON.parse(await fs.readFile(await getDataPath(SESSION_FILE), "utf-8"));
+  } catch {
+    return null;
+  }
+
+  if (session.storageState.cookies.length) {
+    await context.addCookies(session.storageState.cookies);
+  }
+  return session;
+}
+
+/**
+ * Persist the context's cookies/storage so the session survives a restart
+ * @param context - The logged-in browser context
+ * @param addDropUrl - The URL of the Add/Drop course page
+ */
+export async function saveSession(context: BrowserContext, addDropUrl: string): Promise<SavedSession> {
+  const session: SavedSession = {
+    savedAt: new Date().toISOString(),
+    addDropUrl,
+    storageState: await context.storageState(),
+  };
+  await writeFileAtomic(await getDataPath(SESSION_FILE), JSON.stringify(session, null, 2));
+  return session;
+}
+
+export async function clearSession() {
+  await fs.rm(await getDataPath(SESSION_FILE), { force: true });
+}
+
+/**
+ * Decide whether the session behind the current page has expired. PEC sends
+ * expired sessions back to the login page, so a redirect away from the
+ * expected URL, a password field, or a missing course table all count.
+ * @param page - The page after navigating to the saved Add/Drop URL
+ * @param expectedUrl - The Add/Drop URL we navigated to
+ * @returns The reason the session is considered expired, or null if it's live
+ */
+export async function detectSessionExpiry(page: Page, expectedUrl: string): Promise<string | null> {
+  const currentUrl = new URL(page.url());
+  const expected = new URL(expectedUrl);
+
+  if (currentUrl.pathname.toLowerCase() !== expected.pathname.toLowerCase()) {
+    return `redirected to ${currentUrl.pathname}`;
+  }
+  if (/login/i.test(currentUrl.pathname)) {
+    return "landed on the login page";
+  }
+
+  const hasPasswordField = (await page.locator('input[type="password"]').count()) > 0;
+  const hasCourseCodes = parseAddDropTable(await page.content()).length > 0;
+
+  if (hasPasswordField) return "login form shown";
+  if (!hasCourseCodes) return "course table missing";
+  return null;
+}
@@ -0,0 +1,220 @@
+import { Page, Stagehand } from "@browserbasehq/stagehand";
+import fs from "fs/promises";
+import { z } from "zod";
+import { scrapeCourses } from "./courses.js";
+import {
+  courseCheckbox,
+  EnrollOptions,
+  markDryRunReported,
+  readAttempts,
+  submitAddDropForm,
+  takeScreenshot,
+  writeAttempts,
+} from "./enroll.js";
+import { Navigator } from "./navigator.js";
+import { checkWatchedCourses, WatchedCourse } from "./watchlist.js";
+
+const courseCode = z.string().regex(/^[A-Z]{2}\d{4}$/, "Course codes look like CS6701");
+
+export const swapRuleSchema = z.object({
+  // Course to add once it becomes selectable...
+  add: courseCode,
+  addSection: z.string().optional(),
+  addSlot: z.string().optional(),
+  // ...and the registered backup course to drop in the same submit
+  drop: courseCode,
+});
+
+export type SwapRule = z.infer<typeof swapRuleSchema>;
+
+export type SwapOutcome =
+  | "swapped"
+  | "dry_run"
+  | "dry_run_reported" // the dry-run notice already went out for this rule
+  | "rolled_back" // add didn't take, backup course re-added
+  | "partial_failure" // add didn't take AND the backup couldn't be re-added
+  | "failed"
+  | "attempts_exhausted";
+
+export type SwapResult = {
+  rule: SwapRule;
+  outcome: SwapOutcome;
+  attempt: number;
+  message: string;
+  registeredBefore: string[];
+  registeredAfter: string[];
+  screenshotPath?: string;
+  screenshot?: Buffer;
+};
+
+/**
+ * Load swap rules from SWAPS_FILE (default: swaps.json). A missing file means
+ * no swaps.
+ * @returns The swap rules, in file order
+ */
+export async function loadSwapRules(): Promise<SwapRule[]> {
+  const file = process.env.SWAPS_FILE || "swaps.json";
+  try {
+    return z.array(swapRuleSchema).parse(JSON.parse(await fs.readFile(file, "utf-8")));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return [];
+    throw new Error(`Failed to read swap rules from ${file}: ${error.message}`);
+  }
+}
+
+export function describeSwapRule(rule: SwapRule) {
+  return `${rule.drop} → ${rule.add}`;
+}
+
+function swapKey(rule: SwapRule) {
+  return `swap:${rule.drop}->${rule.add}`;
+}
+
+function toWatchedCourse(code: string, section?: string, slot?: string): WatchedCourse {
+  return { courseCode: code, priority: "high", section, slot };
+}
+
+async function getRegisteredCourses(page: Page): Promise<string[]> {
+  const courses = await scrapeCourses(page);
+  return courses.filter((c) => c.checkboxState === "checked").map((c) => c.courseCode);
+}
+
+/**
+ * Check whether a swap rule should fire right now: the course to add is
+ * selectable and unticked, and the backup course is currently registered
+ * @param page - The page showing the Add/Drop course table
+ * @param rule - The swap rule to check
+ */
+export async function isSwapReady(page: Page, rule: SwapRule): Promise<boolean> {
+  const [add, drop] = await checkWatchedCourses(page, [
+    toWatchedCourse(rule.add, rule.addSection, rule.addSlot),
+    toWatchedCourse(rule.drop),
+  ]);
+  return add.isSelectable && add.checkboxState === "unchecked" && drop.checkboxState === "checked";
+}
+
+/**
+ * Drop the backup course and add the target in a single Add/Drop submit, then
+ * verify the final registered set. If the target didn't end up registered,
+ * re-add the backup in a second submit so the student isn't left with neither.
+ * @param page - The page showing the Add/Drop course table
+ * @param stagehand - Used for logging
+ * @param navigator - Clicks the form's save button
+ * @param rule - The swap to perform
+ * @param options - Dry-run flag and attempt budget (shared with auto-enroll)
+ * @returns What happened, including the registered set before and after
+ */
+export async function executeSwap(
+  page: Page,
+  stagehand: Stagehand,
+  navigator: Navigator,
+  rule: SwapRule,
+  options: EnrollOptions,
+): Promise<SwapResult> {
+  const key = swapKey(rule);
+  const attempts = await readAttempts();
+  const attempt = (attempts[key] ?? 0) + 1;
+  const registeredBefore = await getRegisteredCourses(page);
+  const base = { rule, attempt, registeredBefore };
+
+  if (attempt > options.maxAttempts) {
+    return {
+      ...base,
+      attempt: attempt - 1,
+      outcome: "attempts_exhausted",
+      message: `Skipping swap ${describeSwapRule(rule)}: already tried ${options.maxAttempts} time(s)`,
+      registeredAfter: registeredBefore,
+    };
+  }
+
+  if (options.dryRun) {
+    if (await markDryRunReported(attempts, key)) {
+      return {
+        ...base,
+        outcome: "dry_run_reported",
+        message: `[dry run] ${rule.add} is still selectable - already reported`,
+        registeredAfter: registeredBefore,
+      };
+    }
+    stagehand.log({ category: "swap", message: `[dry run] Would drop ${rule.drop} and add ${rule.add}` });
+    return {
+      ...base,
+      outcome: "dry_run",
+      message: `[dry run] ${rule.add} is selectable - would have dropped ${rule.drop} and added ${rule.add}`,
+      registeredAfter: registeredBefore,
+      ...(await takeScreenshot(page, `swap-${rule.add}`)),
+    };
+  }
+
+  attempts[key] = attempt;
+  await writeAttempts(attempts);
+
+  const addCourse = toWatchedCourse(rule.add, rule.addSection, rule.addSlot);
+  const dropCourse = toWatchedCourse(rule.drop);
+
+  try {
+    stagehand.log({ category: "swap", message: `Swapping ${describeSwapRule(rule)} (attempt ${attempt}/${options.maxAttempts})` });
+    await courseCheckbox(page, dropCourse).uncheck({ timeout: 10_000 });
+    await courseCheckbox(page, addCourse).check({ timeout: 10_000 });
+    await submitAddDropForm(page, navigator);
+  } catch (error: any) {
+    stagehand.log({ category: "error", message: `Swap submit failed: ${error.message}` });
+  }
+
+  // Verify the final registered set rather than trusting the submit
+  let registeredAfter = await getRegisteredCourses(page);
+
+  if (registeredAfter.includes(rule.add)) {
+    delete attempts[key];
+    await writeAttempts(attempts);
+    return {
+      ...base,
+      outcome: "swapped",
+      message: `Swapped ${describeSwapRule(rule)}: dropped ${rule.drop}, added ${rule.add}`,
+      registeredAfter,
+      ...(await takeScreenshot(page, `swap-${rule.add}`)),
+    };
+  }
+
+  if (registeredAfter.includes(rule.drop)) {
+    // Neither change took, nothing to roll back
+    return {
+      ...base,
+      outcome: "failed",
+      message: `Swap ${describeSwapRule(rule)} didn't take: ${rule.add} not added, ${rule.drop} still registered`,
+      registeredAfter,
+      ...(await takeScreenshot(page, `swap-${rule.add}`)),
+    };
+  }
+
+  // The drop went through but the add didn't: put the backup course back
+  stagehand.log({ category: "swap", message: `${rule.add} not registered after submit, re-adding ${rule.drop}` });
+  try {
+    await courseCheckbox(page, dropCourse).check({ timeout: 10_000 });
+    await submitAddDropForm(page, navigator);
+  } catch (error: any) {
+    stagehand.log({ category: "error", message: `Rollback submit failed: ${error.message}` });
+  }
+  registeredAfter = await getRegisteredCourses(page);
+  const shot = await takeScreenshot(page, `swap-${rule.add}`);
+
+  if (registeredAfter.includes(rule.drop)) {
+    return {
+      ...base,
+      outcome: "rolled_back",
+      message: `Swap ${describeSwapRule(rule)} failed: ${rule.add} wasn't added, so ${rule.drop} was re-added`,
+      registeredAfter,
+      ...shot,
+    };
+  }
+
+  return {
+    ...base,
+    outcome: "partial_failure",
+    message:
+      `PARTIAL FAILURE in swap ${describeSwapRule(rule)}: ${rule.drop} was DROPPED, ` +
+      `${rule.add} was NOT added and re-adding ${rule.drop} FAILED. Fix your registration manually now!`,
+    registeredAfter,
+    ...shot,
+  };
+}
@@ -0,0 +1,138 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import type { ObserveResult, Page } from "@browserbasehq/stagehand";
+import { actWithCache, CacheEntry, clearActionCache } from "../cache.js";
+import { withDataDir } from "./helpers.js";
+
+const INSTRUCTION = "Click on the 'Add & Drop Courses' link in the menu";
+
+/** Observes `selector`, and replays actions only while that selector is on the page */
+class FakePage {
+  public observed = 0;
+  public acted: ObserveResult[] = [];
+  public failActs = false;
+
+  constructor(
+    public currentUrl: string,
+    public selector: string,
+  ) {}
+
+  url() {
+    return this.currentUrl;
+  }
+
+  async observe(): Promise<ObserveResult[]> {
+    this.observed++;
+    return [{ selector: this.selector, description: "Add & Drop Courses link", method: "click", arguments: [] }];
+  }
+
+  async act(action: ObserveResult) {
+    if (this.failActs) {
+      this.failActs = false;
+      throw new Error("element detached");
+    }
+    this.acted.push(action);
+  }
+
+  locator(selector: string) {
+    return { count: async () => (selector === this.selector ? 1 : 0) };
+  }
+
+  async evaluate() {}
+
+  asPage() {
+    return this as unknown as Page;
+  }
+}
+
+function readCache(dataDir: string): Record<string, CacheEntry> {
+  return JSON.parse(fs.readFileSync(path.join(dataDir, "action-cache.json"), "utf-8"));
+}
+
+function editCache(dataDir: string, edit: (entry: CacheEntry) => void) {
+  const cache = readCache(dataDir);
+  Object.values(cache).forEach(edit);
+  fs.writeFileSync(path.join(dataDir, "action-cache.json"), JSON.stringify(cache));
+}
+
+test("replays a cached action on the same page, whatever the query string", () =>
+  withDataDir(async (dataDir) => {
+    const page = new FakePage("https://pec.edu.in/Dashboard.aspx?session=1", "xpath=/html/body/ul/li[2]/a");
+
+    await actWithCache(page.asPage(), INSTRUCTION);
+    page.currentUrl = "https://pec.edu.in/Dashboard.aspx?session=2";
+    await actWithCache(page.asPage(), INSTRUCTION);
+
+    assert.equal(page.observed, 1);
+    assert.equal(page.acted.length, 2);
+    const [entry] = Object.values(readCache(dataDir));
+    assert.equal(entry.path, "/Dashboard.aspx");
+    assert.equal(entry.hits, 1);
+
+    // Another page is another entry
+    page.currentUrl = "https://pec.edu.in/AddDrop.aspx";
+    await actWithCache(page.asPage(), INSTRUCTION);
+    assert.equal(page.observed, 2);
+  }));
+
+test("entries expire after ACTION_CACHE_TTL_HOURS and are observed again", () =>
+  withDataDir(async (dataDir) => {
+    const saved = process.env.ACTION_CACHE_TTL_HOURS;
+    process.env.ACTION_CACHE_TTL_HOURS = "2";
+    try {
+      const page = new FakePage("https://pec.edu.in/Dashboard.aspx", "xpath=/html/body/ul/li[2]/a");
+      await actWithCache(page.asPage(), INSTRUCTION);
+
+      const [entry] = Object.values(readCache(dataDir));
+      assert.equal(Date.parse(entry.expiresAt) - Date.parse(entry.createdAt), 2 * 3_600_000);
+
+      editCache(dataDir, (entry) => {
+        entry.hits = 5;
+        entry.expiresAt = new Date(Date.now() - 1000).toISOString();
+      });
+      await actWithCache(page.asPage(), INSTRUCTION);
+
+      assert.equal(page.observed, 2);
+      const [renewed] = Object.values(readCache(dataDir));
+      assert.equal(renewed.hits, 0);
+      assert.ok(Date.parse(renewed.expiresAt) > Date.now());
+    } finally {
+      if (saved === undefined) delete process.env.ACTION_CACHE_TTL_HOURS;
+      else process.env.ACTION_CACHE_TTL_HOURS = saved;
+    }
+  }));
+
+test("an entry is replaced when its selector stops matching or replaying it fails", () =>
+  withDataDir(async (dataDir) => {
+    const page = new FakePage("https://pec.edu.in/Dashboard.aspx", "xpath=/html/body/ul/li[2]/a");
+    await actWithCache(page.asPage(), INSTRUCTION);
+
+    // The portal moved the link
+    page.selector = "xpath=/html/body/nav/a[2]";
+    await actWithCache(page.asPage(), INSTRUCTION);
+    assert.equal(page.observed, 2);
+    assert.equal(Object.values(readCache(dataDir))[0].action.selector, "xpath=/html/body/nav/a[2]");
+
+    page.failActs = true;
+    await actWithCache(page.asPage(), INSTRUCTION);
+    assert.equal(page.observed, 3);
+    assert.equal(page.acted.length, 3);
+  }));
+
+test("clearing removes every entry, or just the ones a filter picks", () =>
+  withDataDir(async (dataDir) => {
+    const page = new FakePage("https://pec.edu.in/Dashboard.aspx", "xpath=/html/body/ul/li[2]/a");
+    await actWithCache(page.asPage(), INSTRUCTION);
+    page.currentUrl = "https://pec.edu.in/AddDrop.aspx";
+    await actWithCache(page.asPage(), INSTRUCTION);
+
+    assert.equal(await clearActionCache((entry) => entry.path === "/AddDrop.aspx"), 1);
+    assert.deepEqual(
+      Object.values(readCache(dataDir)).map((entry) => entry.path),
+      ["/Dashboard.aspx"],
+    );
+    assert.equal(await clearActionCache(), 1);
+    assert.deepEqual(readCache(dataDir), {});
+  }));
@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Page, Stagehand } from "@browserbasehq/stagehand";
+import { CaptchaGuess, CaptchaSolver, captchaConfigSchema, solveCaptcha, solveWithVotes } from "../captcha.js";
+
+const image = Buffer.from("captcha");
+const stagehand = { log() {} } as unknown as Stagehand;
+
+/** Answers with the next scripted guess (or throws it), one per call */
+class ScriptedSolver implements CaptchaSolver {
+  public calls = 0;
+
+  constructor(
+    readonly name: string,
+    private answers: (Partial<CaptchaGuess> | Error)[],
+  ) {}
+
+  async solve(): Promise<CaptchaGuess> {
+    const answer = this.answers[this.calls++ % this.answers.length];
+    if (answer instanceof Error) throw answer;
+    return { solver: this.name, text: "", confidence: 0.9, latencyMs: 10, ...answer };
+  }
+}
+
+/** A login page whose CAPTCHA can be screenshotted and refreshed */
+function captchaPage() {
+  const page = {
+    refreshes: 0,
+    locator: () => ({
+      first: () => ({
+        count: async () => 1,
+        screenshot: async () => image,
+        click: async () => void page.refreshes++,
+        evaluate: async () => {},
+      }),
+    }),
+  };
+  return page;
+}
+
+test("voting takes the majority answer and scales its confidence by the agreement", async () => {
+  const solver = new ScriptedSolver("llm:gpt-4o", [
+    { text: "7KX2P", usage: { promptTokens: 100, completionTokens: 3 } },
+    { text: "7KX2R", confidence: 0.5, usage: { promptTokens: 100, completionTokens: 3 } },
+    { text: "7KX2P", confidence: 0.7, usage: { promptTokens: 100, completionTokens: 3 } },
+    // An empty answer doesn't vote, but still counts as a sample
+    { text: "" },
+  ]);
+
+  const guess = await solveWithVotes(solver, image, 4);
+  assert.equal(guess.text, "7KX2P");
+  assert.equal(guess.solver, "llm:gpt-4o (2/4 votes)");
+  assert.equal(guess.confidence, (2 / 4) * 0.8);
+  assert.equal(guess.latencyMs, 40);
+  assert.deepEqual(guess.usage, { promptTokens: 300, completionTokens: 9 });
+});
+
+test("a single sample is returned as is, and all-empty votes give no answer", async () => {
+  const once = await solveWithVotes(new ScriptedSolver("ocr", [{ text: "AB12", confidence: 0.4 }]), image, 1);
+  assert.deepEqual(once, { solver: "ocr", text: "AB12", confidence: 0.4, latencyMs: 10 });
+
+  const blank = await solveWithVotes(new ScriptedSolver("ocr", [{ text: "" }]), image, 3);
+  assert.equal(blank.text, "");
+  assert.equal(blank.confidence, 0);
+  assert.equal(blank.usage, undefined);
+});
+
+test("the chain moves on from unsure, malformed and failing solvers", async () => {
+  const config = captchaConfigSchema.parse({
+    solvers: [{ type: "ocr" }, { type: "llm", model: "broken" }, { type: "llm", minConfidence: 0.5 }],
+    minConfidence: 0.8,
+  });
+  const solvers: Record<string, CaptchaSolver> = {
+    ocr: new ScriptedSolver("ocr", [{ text: "7KX2P", confidence: 0.6 }]),
+    "llm:broken": new ScriptedSolver("llm:broken", [new Error("rate limited")]),
+    "llm:gpt-4o": new ScriptedSolver("llm:gpt-4o", [{ text: "7KX2P", confidence: 0.6 }]),
+  };
+  const page = captchaPage();
+
+  const result = await solveCaptcha(page as unknown as Page, stagehand, config, (solverConfig) =>
+    solverConfig.type === "ocr" ? solvers.ocr : solvers[`llm:${solverConfig.model}`],
+  );
+  // OCR is below the shared threshold, the LLM clears its own lower one
+  assert.equal(result?.guess.solver, "llm:gpt-4o");
+  assert.deepEqual(
+    result?.guesses.map((guess) => guess.solver),
+    ["ocr", "llm:gpt-4o"],
+  );
+  assert.equal(result?.image, image);
+  assert.equal(page.refreshes, 0);
+});
+
+test("the chain refreshes the CAPTCHA before giving up", async () => {
+  const config = captchaConfigSchema.parse({ solvers: [{ type: "ocr" }], refreshAttempts: 2 });
+  // Confident, but not shaped like a CAPTCHA
+  const ocr = new ScriptedSolver("ocr", [{ text: "7K", confidence: 0.95 }]);
+  const page = captchaPage();
+
+  const result = await solveCaptcha(page as unknown as Page, stagehand, config, () => ocr);
+  assert.equal(result, null);
+  assert.equal(ocr.calls, 3);
+  assert.equal(page.refreshes, 2);
+});
@@ -0,0 +1,129 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { fileURLToPath } from "url";
+import { diffCourses } from "../changes.js";
+import { parseAddDropTable } from "../courses.js";
+import { matchWatchedCourses } from "../watchlist.js";
+import { row } from "./helpers.js";
+
+function fixture(name: string) {
+  return fs.readFileSync(fileURLToPath(new URL(`fixtures/${name}`, import.meta.url)), "utf-8");
+}
+
+test("parses every course row of the GridView Add/Drop page", () => {
+  const courses = parseAddDropTable(fixture("add-drop-gridview.html"));
+
+  assert.deepEqual(
+    courses.map((c) => c.courseCode),
+    ["CS6701", "HS6001", "MM6006", "EC6602"],
+  );
+  assert.deepEqual(courses[0], {
+    courseCode: "CS6701",
+    courseName: "COMPUTER NETWORKS",
+    isSelectable: false,
+    isVisible: true,
+    checkboxState: "unchecked",
+    onclick: "chkcontrol0(0)",
+    credits: 4,
+    slot: "B",
+    section: "A1",
+    faculty: "Dr. R. Sharma",
+    seatsAvailable: 0,
+    seatsTotal: 60,
+    courseType: "Program Elective",
+  });
+});
+
+test("reads checkbox states from the disabled/checked attributes", () => {
+  const courses = parseAddDropTable(fixture("add-drop-gridview.html"));
+  const byCode = new Map(courses.map((c) => [c.courseCode, c]));
+
+  assert.equal(byCode.get("CS6701")!.isSelectable, false);
+  assert.equal(byCode.get("HS6001")!.checkboxState, "checked");
+  assert.equal(byCode.get("HS6001")!.isSelectable, true);
+  assert.equal(byCode.get("MM6006")!.checkboxState, "unchecked");
+  assert.equal(byCode.get("MM6006")!.isSelectable, true);
+  // Rows without a checkbox can't be selected
+  assert.equal(byCode.get("EC6602")!.checkboxState, "not_found");
+  assert.equal(byCode.get("EC6602")!.isSelectable, false);
+});
+
+test("normalises whitespace and entities in cell text", () => {
+  const courses = parseAddDropTable(fixture("add-drop-gridview.html"));
+
+  assert.equal(courses[1].courseName, "PROFESSIONAL ETHICS");
+  assert.equal(courses[2].courseName, "COMPOSITE MATERIALS & DESIGN");
+  assert.equal(courses[2].credits, 3.5);
+});
+
+test("leaves unreadable seat counts as null", () => {
+  const [, , , vlsi] = parseAddDropTable(fixture("add-drop-gridview.html"));
+
+  assert.equal(vlsi.seatsAvailable, null);
+  assert.equal(vlsi.seatsTotal, null);
+});
+
+test("falls back to the course-code heuristic when the table has no header", () => {
+  const courses = parseAddDropTable(fixture("add-drop-legacy.html"));
+
+  assert.deepEqual(
+    courses.map((c) => [c.courseCode, c.courseName, c.checkboxState, c.isSelectable]),
+    [
+      ["CS6701", "COMPUTER NETWORKS", "unchecked", false],
+      ["CS6703", "MACHINE LEARNING", "unchecked", true],
+      ["HS6001", "PROFESSIONAL ETHICS", "checked", true],
+    ],
+  );
+  assert.equal(courses[0].slot, null);
+  assert.equal(courses[0].credits, null);
+});
+
+test("finds no courses on the login page", () => {
+  assert.deepEqual(parseAddDropTable(fixture("login-page.html")), []);
+});
+
+test("reads separate available and total seat columns", () => {
+  const html = `
+    <table>
+      <tr><th>Code</th><th>Title</th><th>Available Seats</th><th>Total Seats</th><th></th></tr>
+      <tr><td>CS6701</td><td>COMPUTER NETWORKS</td><td>3</td><td>60</td><td><input type="checkbox"></td></tr>
+    </table>`;
+  const [course] = parseAddDropTable(html);
+
+  assert.equal(course.seatsAvailable, 3);
+  assert.equal(course.seatsTotal, 60);
+});
+
+test("matches watched courses with section and slot constraints", () => {
+  const courses = parseAddDropTable(fixture("add-drop-gridview.html"));
+  const [cn, wrongSlot, materials] = matchWatchedCourses(courses, [
+    { courseCode: "CS6701", priority: "high", section: "A1" },
+    { courseCode: "CS6701", priority: "medium", slot: "C" },
+    { courseCode: "MM6006", priority: "low", slot: "B", section: "A2" },
+  ]);
+
+  assert.equal(cn.isVisible, true);
+  assert.equal(cn.courseName, "COMPUTER NETWORKS");
+  assert.equal(wrongSlot.isVisible, false);
+  assert.equal(wrongSlot.checkboxState, "not_found");
+  assert.equal(materials.isSelectable, true);
+});
+
+test("tells apart rows that share a course code but not the section or slot", () => {
+  const offering = (section: string, slot: string, isSelectable: boolean) =>
+    row("CS6701", isSelectable, { courseName: "COMPUTER NETWORKS", credits: 3, section, slot });
+  const snapshot = [offering("A", "B", true), offering("B", "C", false)];
+
+  assert.deepEqual(diffCourses(snapshot, snapshot), []);
+
+  const changes = diffCourses(snapshot, [offering("A", "B", true), offering("B", "C", true)]);
+  assert.deepEqual(changes.map((change) => change.type), ["became_selectable"]);
+  assert.equal(changes[0].type === "became_selectable" && changes[0].course.section, "B");
+
+  // Moving section B to another slot is a new offering
+  assert.deepEqual(
+    diffCourses(snapshot, [offering("A", "B", true), offering("B", "D", false)]).map((change) => change.type),
+    ["added", "removed"],
+  );
+});
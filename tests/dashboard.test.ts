@@ -0,0 +1,103 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { checkNowSignal, registerAccount, startDashboard, stopDashboard, updateAccountStatus } from "../dashboard.js";
+import { recordCheck, recordCourses, recordNotification } from "../metrics.js";
+import { row } from "./helpers.js";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "pec-dashboard-"));
+let baseUrl = "";
+
+const course = row("CS6701", true, { courseName: "Machine Learning", credits: 3, seatsAvailable: 4, seatsTotal: 60 });
+
+before(async () => {
+  fs.writeFileSync(path.join(dataDir, "last-snapshot.json"), JSON.stringify({ takenAt: new Date().toISOString(), courses: [course] }));
+  const checks = [
+    { startedAt: new Date().toISOString(), finishedAt: new Date().toISOString(), ok: false, error: "Portal is down", sessionReused: false, loginOutcomes: ["portal_down"] },
+    { startedAt: new Date().toISOString(), finishedAt: new Date().toISOString(), ok: true, sessionReused: false, loginOutcomes: ["wrong_captcha", "success"] },
+  ];
+  fs.writeFileSync(path.join(dataDir, "checks.jsonl"), checks.map((check) => JSON.stringify(check)).join("\n") + "\n");
+
+  process.env.DASHBOARD_PORT = "0";
+  process.env.DASHBOARD_TOKEN = "secret";
+  registerAccount({ id: "alice", dataDir, watchlist: [{ courseCode: "CS6701", priority: "high" }] });
+  baseUrl = new URL(await startDashboard()).origin;
+});
+
+after(async () => {
+  await stopDashboard();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test("serves the last scrape, check stats and errors as JSON", async () => {
+  assert.equal((await fetch(`${baseUrl}/api/status`)).status, 403);
+
+  const res = await fetch(`${baseUrl}/api/accounts/alice`, { headers: { Authorization: "Bearer secret" } });
+  const status = await res.json();
+  assert.equal(status.courses[0].courseCode, "CS6701");
+  assert.equal(status.watched[0].isSelectable, true);
+  assert.equal(status.lastCheck.ok, true);
+  assert.deepEqual(status.recentErrors.map((error: { error: string }) => error.error), ["Portal is down"]);
+  assert.deepEqual(status.captcha, { attempts: 2, solved: 1, rate: "50%" });
+
+  const page = await (await fetch(`${baseUrl}/?token=secret`)).text();
+  assert.match(page, /CS6701 Machine Learning: SELECTABLE/);
+});
+
+test("the check now button wakes the monitor loop", async () => {
+  updateAccountStatus("alice", { state: "waiting" });
+  const wake = checkNowSignal("alice");
+
+  const res = await fetch(`${baseUrl}/api/accounts/alice/check?token=secret`, { method: "POST" });
+  assert.equal(res.status, 202);
+  assert.equal(wake.aborted, true);
+
+  updateAccountStatus("alice", { state: "checking" });
+  const busy = await fetch(`${baseUrl}/api/accounts/alice/check?token=secret`, { method: "POST" });
+  assert.deepEqual(await busy.json(), { result: "already_checking" });
+});
+
+test("exposes Prometheus metrics", async () => {
+  recordCheck("alice", {
+    startedAt: "2026-10-19T08:00:00Z",
+    finishedAt: "2026-10-19T08:00:42Z",
+    ok: false,
+    sessionReused: false,
+    loginOutcomes: ["wrong_captcha", "wrong_credentials"],
+  });
+  recordCourses("alice", [course], new Set(["CS6701"]));
+  recordNotification("telegram", false);
+
+  const res = await fetch(`${baseUrl}/metrics`, { headers: { Authorization: "Bearer secret" } });
+  assert.match(res.headers.get("content-type") ?? "", /^text\/plain/);
+  const body = await res.text();
+  assert.match(body, /^pec_checks_attempted_total\{account="alice"\} 1$/m);
+  assert.match(body, /^pec_login_failures_total\{account="alice",reason="wrong_credentials"\} 1$/m);
+  assert.match(body, /^pec_captcha_solve_rate\{account="alice"\} 0.5$/m);
+  assert.match(body, /^pec_course_selectable\{account="alice",course="CS6701",watched="true"\} 1$/m);
+  assert.match(body, /^pec_notifications_failed_total\{channel="telegram"\} 1$/m);
+  assert.match(body, /^pec_check_duration_seconds_bucket\{account="alice",le="60"\} 1$/m);
+  assert.match(body, /^pec_check_duration_seconds_bucket\{account="alice",le="30"\} 0$/m);
+});
+
+test("without a token, only the dashboard's own pages can post", async () => {
+  await stopDashboard();
+  delete process.env.DASHBOARD_TOKEN;
+  try {
+    const origin = new URL(await startDashboard()).origin;
+    updateAccountStatus("alice", { state: "waiting" });
+    const check = (headers: Record<string, string>) =>
+      fetch(`${origin}/api/accounts/alice/check`, { method: "POST", headers });
+
+    assert.equal((await check({ Origin: "https://evil.example" })).status, 403);
+    assert.equal((await check({ Origin: "null" })).status, 403);
+    assert.equal((await check({ Origin: origin })).status, 202);
+    // Scripts send no Origin at all
+    updateAccountStatus("alice", { state: "waiting" });
+    assert.equal((await check({})).status, 202);
+  } finally {
+    process.env.DASHBOARD_TOKEN = "secret";
+  }
+});
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildDigest, lastDigestDue } from "../digest.js";
+import { row } from "./helpers.js";
+
+test("sums up a day of checks, logins and course changes", () => {
+  const digest = buildDigest({
+    period: "daily",
+    to: new Date("2026-10-19T08:00:00Z"),
+    watchlist: [{ courseCode: "CS6701", priority: "high" }],
+    checks: [
+      // Outside the period
+      { startedAt: "2026-10-17T09:00:00Z", finishedAt: "", ok: true, sessionReused: false, loginOutcomes: ["success"] },
+      { startedAt: "2026-10-18T09:00:00Z", finishedAt: "", ok: true, sessionReused: false, loginOutcomes: ["wrong_captcha", "success"] },
+      { startedAt: "2026-10-18T10:00:00Z", finishedAt: "", ok: true, sessionReused: true, loginOutcomes: [] },
+      { startedAt: "2026-10-18T11:00:00Z", finishedAt: "", ok: false, sessionReused: false, loginOutcomes: ["portal_down"] },
+    ],
+    history: [
+      { checkedAt: "2026-10-17T20:00:00Z", courses: [row("CS6701", false), row("HS6001", false)] },
+      { checkedAt: "2026-10-18T09:00:00Z", courses: [row("CS6701", true), row("MM6006", false)] },
+      { checkedAt: "2026-10-18T10:00:00Z", courses: [row("CS6701", false), row("MM6006", false)] },
+    ],
+  });
+
+  assert.deepEqual(digest.checks, { total: 3, ok: 2, failed: 1, sessionReused: 1 });
+  assert.deepEqual(digest.logins, { attempts: 3, succeeded: 1, failures: { wrong_captcha: 1, portal_down: 1 } });
+  assert.deepEqual(digest.captcha, { attempts: 2, solved: 1 });
+
+  const [cs6701] = digest.watched;
+  assert.deepEqual(
+    cs6701.timeline.map((entry) => entry.state),
+    ["not selectable", "selectable", "not selectable"],
+  );
+  assert.equal(cs6701.selectableMs, 3_600_000);
+  assert.deepEqual(
+    digest.tableChanges.map((change) => `${change.courseCode} ${change.type}`),
+    ["MM6006 added", "HS6001 removed"],
+  );
+});
+
+test("weekly digests fall due on the configured day", () => {
+  const options = { period: "weekly" as const, time: "08:00", day: 1, channels: ["email"] };
+  // Monday 19 Oct 2026, before and after 08:00
+  assert.deepEqual(lastDigestDue(options, new Date(2026, 9, 19, 7, 0)), new Date(2026, 9, 12, 8, 0));
+  assert.deepEqual(lastDigestDue(options, new Date(2026, 9, 19, 9, 0)), new Date(2026, 9, 19, 8, 0));
+});
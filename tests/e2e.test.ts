@@ -0,0 +1,452 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { HTMLElement, parse } from "node-html-parser";
+import type { BrowserContext, Page, Stagehand } from "@browserbasehq/stagehand";
+import type { Account } from "../accounts.js";
+import type { CaptchaGuess, CaptchaSolver } from "../captcha.js";
+import { parseAddDropTable } from "../courses.js";
+import { diffCourses } from "../changes.js";
+import { login, LoginError } from "../login.js";
+import { collectLoginSignals, judgeLoginSignals } from "../login_verifier.js";
+import { loadNavigationConfig, Navigator } from "../navigator.js";
+import { notificationPolicySchema } from "../notifiers/policy.js";
+import { renderReport } from "../report.js";
+import { detectSessionExpiry, restoreSession, saveSession } from "../session.js";
+import { runInScope } from "../utils.js";
+import { DEFAULT_MOCK_COURSES, MockPortal, startMockPortal } from "../mock/pec_portal.js";
+
+const CAPTCHA = "7KX2P";
+
+type Cookie = { name: string; value: string; domain: string; path: string; expires: number; httpOnly: boolean; secure: boolean; sameSite: "Lax" };
+
+/**
+ * Just enough of a Playwright page for the monitor's own modules to drive the
+ * mock portal without a browser: fetch with a cookie jar, node-html-parser
+ * for the DOM, Playwright's `:has-text()` and `:visible` (every element
+ * counts as visible), and links, buttons and forms that navigate like a browser
+ */
+class HtmlPage {
+  // Times a script reloaded the CAPTCHA image, the only script the login runs
+  public captchaReloads = 0;
+  private cookies = new Map<string, string>();
+  private values = new Map<HTMLElement, string>();
+  private html = "";
+  private root = parse("");
+  private currentUrl = "about:blank";
+
+  async goto(url: string, form?: URLSearchParams) {
+    let init: RequestInit = form ? { method: "POST", body: form } : {};
+    for (let redirects = 0; redirects < 5; redirects++) {
+      const res = await fetch(url, { ...init, headers: { Cookie: this.cookieHeader() }, redirect: "manual" });
+      for (const setCookie of res.headers.getSetCookie()) {
+        const [name, ...value] = setCookie.split(";")[0].split("=");
+        this.cookies.set(name, value.join("="));
+      }
+
+      const location = res.headers.get("location");
+      if (res.status >= 300 && res.status < 400 && location) {
+        url = new URL(location, url).href;
+        init = {};
+        continue;
+      }
+      this.currentUrl = url;
+      this.html = await res.text();
+      this.root = parse(this.html);
+      this.values.clear();
+      return { status: () => res.status };
+    }
+    throw new Error("Too many redirects");
+  }
+
+  url() {
+    return this.currentUrl;
+  }
+
+  async content() {
+    return this.html;
+  }
+
+  locator(selector: string): HtmlLocator {
+    return new HtmlLocator(this, [selector]);
+  }
+
+  async waitForLoadState() {}
+
+  async evaluate() {
+    this.captchaReloads++;
+  }
+
+  async waitForSelector(selector: string) {
+    if ((await this.locator(selector).count()) === 0) throw new Error(`Timeout waiting for ${selector}`);
+  }
+
+  context() {
+    return {
+      cookies: async () => [...this.cookies].map(([name, value]) => this.cookie(name, value)),
+      addCookies: async (cookies: Cookie[]) => cookies.forEach(({ name, value }) => this.cookies.set(name, value)),
+      storageState: async () => ({ cookies: [...this.cookies].map(([name, value]) => this.cookie(name, value)), origins: [] }),
+    };
+  }
+
+  /** The page as the monitor's modules expect it */
+  asPage() {
+    return this as unknown as Page;
+  }
+
+  query(selector: string): HTMLElement[] {
+    const text = selector.match(/:has-text\("([^"]*)"\)/)?.[1].toLowerCase();
+    const css = selector.replace(/:has-text\("[^"]*"\)/, "").replace(/:visible/g, "");
+    const matches = this.root.querySelectorAll(css);
+    return text === undefined ? matches : matches.filter((element) => element.text.toLowerCase().includes(text));
+  }
+
+  async fill(element: HTMLElement, value: string) {
+    this.values.set(element, value);
+  }
+
+  async screenshot(element: HTMLElement) {
+    const res = await fetch(new URL(element.getAttribute("src")!, this.currentUrl), {
+      headers: { Cookie: this.cookieHeader() },
+    });
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async click(element: HTMLElement) {
+    if (element.getAttribute("type") === "checkbox") {
+      if (element.hasAttribute("checked")) element.removeAttribute("checked");
+      else element.setAttribute("checked", "checked");
+      return;
+    }
+
+    const link = element.tagName === "A" ? element : element.closest("a");
+    if (link) {
+      await this.goto(new URL(link.getAttribute("href")!, this.currentUrl).href);
+      return;
+    }
+
+    const form = element.closest("form");
+    if (form && element.getAttribute("type") === "submit") {
+      const fields = new URLSearchParams();
+      for (const input of form.querySelectorAll("input[name]")) {
+        const type = input.getAttribute("type");
+        if (type === "submit") continue;
+        if (type === "checkbox" && (!input.hasAttribute("checked") || input.hasAttribute("disabled"))) continue;
+        fields.append(input.getAttribute("name")!, this.values.get(input) ?? input.getAttribute("value") ?? "");
+      }
+      await this.goto(new URL(form.getAttribute("action") ?? "", this.currentUrl).href, fields);
+    }
+  }
+
+  private cookie(name: string, value: string): Cookie {
+    const { hostname } = new URL(this.currentUrl);
+    return { name, value, domain: hostname, path: "/", expires: -1, httpOnly: true, secure: false, sameSite: "Lax" };
+  }
+
+  private cookieHeader() {
+    return [...this.cookies].map(([name, value]) => `${name}=${value}`).join("; ");
+  }
+}
+
+class HtmlLocator {
+  constructor(
+    private page: HtmlPage,
+    private selectors: string[],
+    private onlyFirst = false,
+  ) {}
+
+  or(other: HtmlLocator) {
+    return new HtmlLocator(this.page, [...this.selectors, ...other.selectors]);
+  }
+
+  first() {
+    return new HtmlLocator(this.page, this.selectors, true);
+  }
+
+  private elements() {
+    // In document order, like Playwright's `or`
+    const matches = [...new Set(this.selectors.flatMap((selector) => this.page.query(selector)))];
+    matches.sort((a, b) => a.range[0] - b.range[0]);
+    return this.onlyFirst ? matches.slice(0, 1) : matches;
+  }
+
+  async count() {
+    return this.elements().length;
+  }
+
+  async waitFor() {
+    if (this.elements().length === 0) throw new Error(`Timeout waiting for ${this.selectors.join(" or ")}`);
+  }
+
+  async innerText() {
+    return this.only().text;
+  }
+
+  async fill(value: string) {
+    await this.page.fill(this.only(), value);
+  }
+
+  async click() {
+    await this.page.click(this.only());
+  }
+
+  async screenshot() {
+    return this.page.screenshot(this.only());
+  }
+
+  // Waiting for an image to load: fetched images are always loaded
+  async evaluate() {}
+
+  private only() {
+    const [element, ...rest] = this.elements();
+    if (!element) throw new Error(`No element matches ${this.selectors.join(" or ")}`);
+    if (rest.length) throw new Error(`Strict mode: ${this.selectors.join(" or ")} matches ${rest.length + 1} elements`);
+    return element;
+  }
+}
+
+/** Reads the mock portal's SVG CAPTCHA, getting the first `misreads` wrong */
+class SvgSolver implements CaptchaSolver {
+  readonly name = "svg";
+  public calls = 0;
+
+  constructor(private misreads = 0) {}
+
+  async solve(image: Buffer): Promise<CaptchaGuess> {
+    const text = [...image.toString().matchAll(/<text[^>]*>(.)<\/text>/g)].map(([, char]) => char).join("");
+    return { solver: this.name, text: this.calls++ < this.misreads ? "ZZZZZ" : text, confidence: 0.95, latencyMs: 1 };
+  }
+}
+
+const stagehand = { log() {} } as unknown as Stagehand;
+
+describe("monitor against the mock PEC portal", () => {
+  let portal: MockPortal;
+  let page: HtmlPage;
+  let navigator: Navigator;
+  let dataDir: string;
+  const savedEnv = { ...process.env };
+
+  /** The monitor's login, with `solver` reading the CAPTCHA */
+  function logIn({ password = "secret", solver = new SvgSolver() } = {}) {
+    const account: Account = { id: "e2e", username: "student", password, dataDir };
+    return login({
+      page: page.asPage(),
+      stagehand,
+      account,
+      navigator,
+      human: { label: account.id, notifiers: [], policy: notificationPolicySchema.parse({}), whileWaiting: (task) => task() },
+      makeSolver: () => solver,
+    });
+  }
+
+  /** How a login that should fail went, attempt by attempt */
+  async function failedLogIn(options: Parameters<typeof logIn>[0]) {
+    const error = await logIn(options).catch((error) => error);
+    assert.ok(error instanceof LoginError, "expected the login to fail");
+    return error.outcomes;
+  }
+
+  async function openAddDrop() {
+    await navigator.run("addDropMenu");
+    await navigator.run("addDropButton");
+    return parseAddDropTable(await page.content());
+  }
+
+  before(async () => {
+    portal = await startMockPortal({ username: "student", password: "secret", captchaText: CAPTCHA });
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "pec-e2e-"));
+    Object.assign(process.env, {
+      PEC_URL: portal.url,
+      LOGIN_MAX_ATTEMPTS: "3",
+      CAPTCHA_FILE: path.join(dataDir, "captcha.json"),
+      CAPTCHA_SOLVERS: "ocr",
+      CAPTCHA_HUMAN: "off",
+      CAPTCHA_DATASET_DIR: path.join(dataDir, "captcha-dataset"),
+    });
+  });
+
+  after(async () => {
+    process.env = savedEnv;
+    await portal.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    portal.setCourses(DEFAULT_MOCK_COURSES);
+    portal.expireSessions();
+    page = new HtmlPage();
+    navigator = new Navigator(page.asPage(), stagehand, await loadNavigationConfig());
+  });
+
+  test("logs in with the right CAPTCHA and reaches the dashboard", async () => {
+    assert.deepEqual(await logIn(), ["success"]);
+
+    assert.match(page.url(), /Dashboard\.aspx$/);
+    assert.match(await page.locator("body").innerText(), /Welcome, student/);
+    assert.equal(page.captchaReloads, 0);
+    assert.deepEqual(navigator.fallbacks, []);
+  });
+
+  test("retries a wrong CAPTCHA on a fresh one", async () => {
+    const solver = new SvgSolver(1);
+    assert.deepEqual(await logIn({ solver }), ["wrong_captcha", "success"]);
+    assert.equal(solver.calls, 2);
+    assert.equal(page.captchaReloads, 1);
+    assert.match(page.url(), /Dashboard\.aspx$/);
+  });
+
+  test("gives up after LOGIN_MAX_ATTEMPTS wrong CAPTCHAs", async () => {
+    const outcomes = await failedLogIn({ solver: new SvgSolver(Infinity) });
+    assert.deepEqual(outcomes, ["wrong_captcha", "wrong_captcha", "wrong_captcha"]);
+    assert.equal(page.captchaReloads, 2);
+    assert.match(page.url(), /Login\.aspx$/);
+  });
+
+  test("stops at the first rejected password, and when the portal can't be reached", async () => {
+    const solver = new SvgSolver();
+    assert.deepEqual(await failedLogIn({ password: "nope", solver }), ["wrong_credentials"]);
+    assert.equal(solver.calls, 1);
+
+    // Nothing listens on the discard port
+    process.env.PEC_URL = "http://127.0.0.1:9";
+    try {
+      assert.deepEqual(await failedLogIn({ solver }), ["portal_down"]);
+    } finally {
+      process.env.PEC_URL = portal.url;
+    }
+  });
+
+  test("collects the login signals from the dashboard and the login page", async () => {
+    await logIn();
+    const dashboard = await collectLoginSignals(page.asPage(), navigator);
+    assert.deepEqual(dashboard, {
+      url: `${portal.url}/Dashboard.aspx`,
+      onLoginUrl: false,
+      onMemberUrl: true,
+      passwordField: false,
+      addDropMenu: true,
+      logoutLink: true,
+      sessionCookies: ["ASP.NET_SessionId"],
+    });
+    assert.equal(judgeLoginSignals(dashboard).loggedIn, true);
+
+    // The mock hands out a session cookie before login, so a cookie alone proves nothing
+    await failedLogIn({ password: "nope" });
+    const loginPage = await collectLoginSignals(page.asPage(), navigator);
+    assert.equal(loginPage.passwordField, true);
+    assert.equal(judgeLoginSignals(loginPage).loggedIn, false);
+  });
+
+  test("scrapes the Add/Drop course table", async () => {
+    await logIn();
+    const courses = await openAddDrop();
+
+    assert.deepEqual(
+      courses.map((c) => [c.courseCode, c.isSelectable, c.checkboxState]),
+      [
+        ["CS6701", false, "unchecked"],
+        ["HS6001", true, "checked"],
+        ["MM6006", true, "unchecked"],
+      ],
+    );
+    assert.equal(courses[0].slot, "B");
+    assert.equal(courses[0].seatsTotal, 60);
+  });
+
+  test("detects a course becoming selectable, appearing and disappearing", async () => {
+    await logIn();
+    const before = await openAddDrop();
+
+    portal.updateCourse("CS6701", { disabled: false, seatsAvailable: 2 });
+    portal.setCourses([
+      ...portal.getCourses().filter((c) => c.courseCode !== "MM6006"),
+      { ...DEFAULT_MOCK_COURSES[0], courseCode: "CS6703", courseName: "MACHINE LEARNING" },
+    ]);
+    await page.goto(page.url());
+    const after = parseAddDropTable(await page.content());
+
+    assert.deepEqual(
+      diffCourses(before, after).map((change) => change.type),
+      ["became_selectable", "added", "removed"],
+    );
+  });
+
+  test("renders the change report with a headline subject and escaped course names", async () => {
+    await logIn();
+    const before = await openAddDrop();
+
+    portal.updateCourse("CS6701", { disabled: false, seatsAvailable: 2 });
+    portal.setCourses([
+      ...portal.getCourses(),
+      { ...DEFAULT_MOCK_COURSES[0], courseCode: "CS6703", courseName: "R&D <LAB> *1*" },
+    ]);
+    await page.goto(page.url());
+    const after = parseAddDropTable(await page.content());
+
+    const report = await renderReport({
+      account: null,
+      checkedAt: new Date(),
+      previousCheckAt: new Date(),
+      watched: [],
+      changes: diffCourses(before, after),
+      courses: after,
+    });
+    assert.equal(report.subject, "PEC Course Monitor - CS6701 is now SELECTABLE (+1 more change)");
+    assert.match(report.html, /R&#38;D &#60;LAB&#62;/);
+    assert.doesNotMatch(report.html, /<LAB>/);
+    assert.match(report.text, /- CS6703 R&D <LAB> \*1\*: appeared in the table/);
+    assert.match(report.markdown, /\*\*CS6703\*\* R&D <LAB> \\\*1\\\*/);
+  });
+
+  test("detects a checkbox flip after submitting the Add/Drop form", async () => {
+    await logIn();
+    const before = await openAddDrop();
+
+    // Tick MM6006 and save, keeping HS6001
+    await page.locator("#chk2").click();
+    await page.locator("#btnSave").click();
+    const after = parseAddDropTable(await page.content());
+    const changes = diffCourses(before, after);
+
+    assert.deepEqual(
+      changes.map((change) => change.type === "checkbox_changed" && change.course.courseCode),
+      ["MM6006"],
+    );
+    assert.equal(after.find((c) => c.courseCode === "MM6006")!.seatsAvailable, 4);
+  });
+
+  test("logs out and sends later requests back to the login page", async () => {
+    await logIn();
+    await openAddDrop();
+    const addDropUrl = page.url();
+    await navigator.run("logout");
+    await page.goto(addDropUrl);
+
+    assert.match(page.url(), /Login\.aspx$/);
+    assert.equal(await detectSessionExpiry(page.asPage(), addDropUrl), "redirected to /Login.aspx");
+  });
+
+  test("reuses a saved session until the portal expires it", () =>
+    runInScope({ dataDir }, async () => {
+      await logIn();
+      await openAddDrop();
+      const addDropUrl = page.url();
+      assert.equal(await detectSessionExpiry(page.asPage(), addDropUrl), null);
+      await saveSession(page.context() as unknown as BrowserContext, addDropUrl);
+
+      // A fresh browser, as after a restart
+      const restarted = new HtmlPage();
+      const session = await restoreSession(restarted.context() as unknown as BrowserContext);
+      assert.equal(session?.addDropUrl, addDropUrl);
+      await restarted.goto(addDropUrl);
+      assert.equal(await detectSessionExpiry(restarted.asPage(), addDropUrl), null);
+      assert.equal(parseAddDropTable(await restarted.content()).length, 3);
+
+      portal.expireSessions();
+      await restarted.goto(addDropUrl);
+      assert.equal(await detectSessionExpiry(restarted.asPage(), addDropUrl), "redirected to /Login.aspx");
+    }));
+});
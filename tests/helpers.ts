@@ -0,0 +1,34 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { CourseRow } from "../courses.js";
+import { runInScope } from "../utils.js";
+
+/**
+ * A row of the Add/Drop table with every optional column empty
+ * @param fields - Columns to fill in, e.g. the section and slot
+ */
+export const row = (courseCode: string, isSelectable: boolean, fields: Partial<CourseRow> = {}): CourseRow => ({
+  courseCode,
+  courseName: `${courseCode} course`,
+  isVisible: true,
+  isSelectable,
+  checkboxState: "unchecked",
+  onclick: "none",
+  slot: null,
+  section: null,
+  credits: null,
+  seatsAvailable: null,
+  seatsTotal: null,
+  faculty: null,
+  courseType: null,
+  ...fields,
+});
+
+/**
+ * Run `fn` with a fresh, empty data directory in scope, removed afterwards
+ */
+export function withDataDir(fn: (dataDir: string) => Promise<void>) {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "pec-test-"));
+  return runInScope({ dataDir }, () => fn(dataDir)).finally(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+}
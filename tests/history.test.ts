@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { appendHistory, findLastSelectable, findOpenWindows } from "../history.js";
+import { row, withDataDir } from "./helpers.js";
+
+const HOUR = 3_600_000;
+
+test("an empty history has no windows", () =>
+  withDataDir(async () => {
+    assert.deepEqual(await findOpenWindows(), []);
+    assert.equal(await findLastSelectable("CS6701"), null);
+  }));
+
+test("a course that closes and reopens gets a window per stretch, the last one still open", () =>
+  withDataDir(async (dataDir) => {
+    await appendHistory([row("CS6701", false), row("MM6006", true)], new Date("2026-10-19T08:00:00Z"));
+    await appendHistory([row("CS6701", true), row("MM6006", true)], new Date("2026-10-19T09:00:00Z"));
+    // MM6006 drops out of the table, which closes its window too
+    await appendHistory([row("CS6701", false)], new Date("2026-10-19T10:00:00Z"));
+    fs.appendFileSync(path.join(dataDir, "history.jsonl"), "{not json\n");
+    await appendHistory([row("CS6701", true)], new Date("2026-10-19T12:00:00Z"));
+    await appendHistory([row("CS6701", true)], new Date("2026-10-19T14:00:00Z"));
+
+    assert.deepEqual(await findOpenWindows(), [
+      { courseCode: "MM6006", openedAt: "2026-10-19T08:00:00.000Z", closedAt: "2026-10-19T10:00:00.000Z", durationMs: 2 * HOUR },
+      { courseCode: "CS6701", openedAt: "2026-10-19T09:00:00.000Z", closedAt: "2026-10-19T10:00:00.000Z", durationMs: HOUR },
+      { courseCode: "CS6701", openedAt: "2026-10-19T12:00:00.000Z", closedAt: null, durationMs: 2 * HOUR },
+    ]);
+    assert.deepEqual(
+      (await findOpenWindows("MM6006")).map((window) => window.closedAt),
+      ["2026-10-19T10:00:00.000Z"],
+    );
+    assert.equal(await findLastSelectable("CS6701"), "2026-10-19T14:00:00.000Z");
+    assert.equal(await findLastSelectable("MM6006"), "2026-10-19T09:00:00.000Z");
+  }));
+
+test("a course is open while any of its sections is selectable", () =>
+  withDataDir(async () => {
+    // The full section is listed before the one with seats left
+    await appendHistory([row("CS6701", false), row("CS6701", true)], new Date("2026-10-19T08:00:00Z"));
+    await appendHistory([row("CS6701", false), row("CS6701", false)], new Date("2026-10-19T09:00:00Z"));
+
+    assert.equal(await findLastSelectable("CS6701"), "2026-10-19T08:00:00.000Z");
+    assert.deepEqual(await findOpenWindows("CS6701"), [
+      { courseCode: "CS6701", openedAt: "2026-10-19T08:00:00.000Z", closedAt: "2026-10-19T09:00:00.000Z", durationMs: HOUR },
+    ]);
+  }));
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { classifyLoginPage } from "../login.js";
+import { judgeLoginSignals, LoginSignals } from "../login_verifier.js";
+
+test("classifies login failures from the page text", () => {
+  assert.equal(classifyLoginPage("Invalid CAPTCHA. Please try again."), "wrong_captcha");
+  assert.equal(classifyLoginPage("Invalid username or password."), "wrong_credentials");
+  assert.equal(classifyLoginPage("Your account has been locked. Contact the administrator."), "account_locked");
+  assert.equal(classifyLoginPage("Too many failed login attempts"), "account_locked");
+  assert.equal(classifyLoginPage("503 Service Unavailable"), "portal_down");
+  assert.equal(classifyLoginPage("Server Error in '/' Application."), "portal_down");
+  assert.equal(classifyLoginPage("Welcome, student"), null);
+});
+
+test("judges the login from the page structure", () => {
+  const dashboard: LoginSignals = {
+    url: "https://pec.edu.in/Dashboard.aspx",
+    onLoginUrl: false,
+    onMemberUrl: true,
+    passwordField: false,
+    addDropMenu: true,
+    logoutLink: true,
+    sessionCookies: ["ASP.NET_SessionId"],
+  };
+  assert.equal(judgeLoginSignals(dashboard).loggedIn, true);
+
+  // The portal hands out a session cookie before login, so a cookie alone proves nothing
+  const loginPage = {
+    ...dashboard,
+    url: "https://pec.edu.in/Login.aspx",
+    onLoginUrl: true,
+    onMemberUrl: false,
+    passwordField: true,
+    addDropMenu: false,
+    logoutLink: false,
+  };
+  assert.deepEqual(judgeLoginSignals(loginPage), { loggedIn: false, reasons: ["login form shown", "on the login page (/Login.aspx)"] });
+  assert.equal(judgeLoginSignals({ ...dashboard, addDropMenu: false, logoutLink: false, onMemberUrl: false }).loggedIn, null);
+
+  // Member-only page but no session cookie: can't tell
+  assert.equal(judgeLoginSignals({ ...dashboard, sessionCookies: [] }).loggedIn, null);
+});
@@ -0,0 +1,124 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadNotifiers } from "../notifiers/config.js";
+import { Notification, Notifier } from "../notifiers/notifier.js";
+import { deliver, flushOutbox, notificationPolicySchema, quietHoursEnd } from "../notifiers/policy.js";
+import { TelegramNotifier } from "../notifiers/telegram_notifier.js";
+import { withDataDir } from "./helpers.js";
+
+/** Records what it was asked to send, failing while `failing` is set */
+class FakeNotifier implements Notifier {
+  public readonly name = "fake";
+  public sent: Notification[] = [];
+  public failing = false;
+
+  constructor(public readonly recipient: string) {}
+
+  async send(notification: Notification) {
+    if (this.failing) throw new Error("backend down");
+    this.sent.push(notification);
+  }
+}
+
+const alert = (text: string, urgent = false): Notification => ({ subject: "PEC Course Monitor", text, html: `<p>${text}</p>`, urgent });
+
+test("drops repeated alerts and rate-limits each recipient", () =>
+  withDataDir(async () => {
+    const policy = notificationPolicySchema.parse({ rateLimitPerHour: 2 });
+    const alice = new FakeNotifier("email:alice@example.com");
+    const bob = new FakeNotifier("email:bob@example.com");
+
+    const first = await deliver([alice, bob], alert("CS6701 is now SELECTABLE"), policy);
+    assert.deepEqual(first.map((result) => result.status), ["sent", "sent"]);
+
+    const repeat = await deliver([alice], alert("CS6701 is now SELECTABLE"), policy);
+    assert.equal(repeat[0].status, "duplicate");
+
+    await deliver([alice], alert("MM6006 appeared"), policy);
+    const limited = await deliver([alice, bob], alert("HS6001 disappeared"), policy);
+    assert.deepEqual(limited.map((result) => result.status), ["rate_limited", "sent"]);
+    assert.equal(alice.sent.length, 2);
+
+    // Urgent alerts aren't held back
+    const urgent = await deliver([alice], alert("EC6602 is now SELECTABLE", true), policy);
+    assert.equal(urgent[0].status, "sent");
+  }));
+
+test("queues failed sends in the outbox and retries them", () =>
+  withDataDir(async (dataDir) => {
+    const policy = notificationPolicySchema.parse({});
+    const telegram = new FakeNotifier("telegram:1");
+    telegram.failing = true;
+
+    const [failed] = await deliver([telegram], alert("CS6701 is now SELECTABLE"), policy);
+    assert.equal(failed.status, "failed");
+
+    // Not due yet: the first retry waits a minute
+    telegram.failing = false;
+    assert.deepEqual(await flushOutbox([telegram], policy), []);
+
+    // Make the retry due, as if the minute had passed (or the monitor restarted later)
+    const stateFile = path.join(dataDir, "notifications.json");
+    const state = JSON.parse(fs.readFileSync(stateFile, "utf-8"));
+    state.outbox[0].nextAttemptAt = new Date(0).toISOString();
+    fs.writeFileSync(stateFile, JSON.stringify(state));
+
+    const [retried] = await flushOutbox([telegram], policy);
+    assert.equal(retried.status, "sent");
+    assert.equal(telegram.sent.length, 1);
+    assert.deepEqual(await flushOutbox([telegram], policy), []);
+  }));
+
+test("a Telegram attachment that fails doesn't get the text retried", (t) =>
+  withDataDir(async () => {
+    const methods: string[] = [];
+    t.mock.method(globalThis, "fetch", async (url: string) => {
+      const method = url.split("/").pop()!;
+      methods.push(method);
+      return method === "sendPhoto" ? new Response("Bad Request: file too big", { status: 400 }) : Response.json({ ok: true });
+    });
+    const telegram = new TelegramNotifier({ botToken: "123:abc", chatId: "1" });
+    const screenshot = { filename: "CS6701-confirmation.png", contentType: "image/png", content: Buffer.from("png") };
+
+    const policy = notificationPolicySchema.parse({});
+    const [result] = await deliver([telegram], { ...alert("Enrolled in CS6701"), attachments: [screenshot] }, policy);
+    assert.equal(result.status, "sent");
+    assert.deepEqual(methods, ["sendMessage", "sendPhoto"]);
+    assert.deepEqual(await flushOutbox([telegram], policy), []);
+  }));
+
+test("quiet hours wrap past midnight", () => {
+  const policy = notificationPolicySchema.parse({ quietHours: { from: "22:00", to: "07:00" } });
+  const end = quietHoursEnd(policy, new Date(2026, 0, 5, 23, 30));
+  assert.deepEqual(end, new Date(2026, 0, 6, 7, 0));
+  assert.deepEqual(quietHoursEnd(policy, new Date(2026, 0, 6, 6, 59)), new Date(2026, 0, 6, 7, 0));
+  assert.equal(quietHoursEnd(policy, new Date(2026, 0, 6, 12, 0)), null);
+});
+
+test("an account with its own channels doesn't reach the shared recipients", async () => {
+  const saved = { ...process.env };
+  Object.assign(process.env, {
+    NOTIFIERS_FILE: path.join(os.tmpdir(), "pec-no-such-notifiers.json"),
+    RESEND_API_KEY: "re_test",
+    EMAIL_TO: "shared@example.com",
+    TELEGRAM_BOT_TOKEN: "123:abc",
+    TELEGRAM_CHAT_ID: "1",
+    DISCORD_WEBHOOK_URL: "https://discord.com/api/webhooks/shared",
+  });
+  try {
+    const shared = await loadNotifiers();
+    assert.deepEqual(shared.map((notifier) => notifier.name), ["email", "telegram", "discord"]);
+
+    // Only Telegram, with the shared bot token but the account's own chat
+    const bob = await loadNotifiers({ telegram: { chatId: "123456789" } });
+    assert.deepEqual(bob.map((notifier) => notifier.recipient), ["telegram:123456789"]);
+
+    const alice = await loadNotifiers({ email: { to: ["alice@example.com"] } });
+    assert.deepEqual(alice.map((notifier) => notifier.recipient), ["email:alice@example.com"]);
+  } finally {
+    process.env = saved;
+  }
+});
@@ -0,0 +1,125 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isInWindow, scheduleConfigSchema, Scheduler } from "../scheduler.js";
+
+const MINUTE = 60_000;
+// Monday 19 Oct 2026, local time
+const at = (hours: number, minutes = 0, day = 19) => new Date(2026, 9, day, hours, minutes);
+
+const config = (overrides: object = {}) => scheduleConfigSchema.parse({ jitterPercent: 0, ...overrides });
+
+test("windows match on dates, weekdays and times of day, wrapping past midnight", () => {
+  const officeHours = { name: "office", intervalMinutes: 10, days: [1, 2, 3, 4, 5], from: "09:00", to: "17:00" };
+  assert.equal(isInWindow(officeHours, at(9)), true);
+  assert.equal(isInWindow(officeHours, at(16, 59)), true);
+  assert.equal(isInWindow(officeHours, at(17)), false);
+  // Sunday
+  assert.equal(isInWindow(officeHours, at(12, 0, 18)), false);
+
+  const overnight = { name: "overnight", intervalMinutes: 5, from: "22:00", to: "02:00" };
+  assert.equal(isInWindow(overnight, at(23, 30)), true);
+  assert.equal(isInWindow(overnight, at(1, 59)), true);
+  assert.equal(isInWindow(overnight, at(2)), false);
+  assert.equal(isInWindow(overnight, at(21, 59)), false);
+
+  const addDrop = { name: "add/drop", intervalMinutes: 2, start: "2026-10-19T08:00:00", end: "2026-10-21T18:00:00" };
+  assert.equal(isInWindow(addDrop, at(7, 59)), false);
+  assert.equal(isInWindow(addDrop, at(12, 0, 20)), true);
+  assert.equal(isInWindow(addDrop, at(18, 1, 21)), false);
+});
+
+test("the first matching window sets the interval", () => {
+  const scheduler = new Scheduler(
+    config({
+      defaultIntervalMinutes: 60,
+      windows: [
+        { name: "overnight", intervalMinutes: 5, from: "22:00", to: "02:00" },
+        { name: "late", intervalMinutes: 15, from: "20:00" },
+      ],
+    }),
+  );
+
+  assert.deepEqual(scheduler.nextRun(at(23, 30)), { at: at(23, 35), delayMs: 5 * MINUTE, reason: 'window "overnight"' });
+  assert.equal(scheduler.nextRun(at(21)).reason, 'window "late"');
+  assert.deepEqual(scheduler.nextRun(at(12)), { at: at(13), delayMs: 60 * MINUTE, reason: "default interval" });
+});
+
+test("jitter spreads the interval by up to jitterPercent either way", (t) => {
+  const scheduler = new Scheduler(config({ defaultIntervalMinutes: 60, jitterPercent: 10 }));
+  const random = t.mock.method(Math, "random", () => 0);
+  assert.equal(scheduler.nextRun(at(12)).delayMs, 54 * MINUTE);
+
+  random.mock.mockImplementation(() => 0.5);
+  assert.equal(scheduler.nextRun(at(12)).delayMs, 60 * MINUTE);
+
+  random.mock.mockImplementation(() => 1);
+  assert.equal(scheduler.nextRun(at(12)).delayMs, 66 * MINUTE);
+});
+
+test("failures back off exponentially, capped, at a pace that depends on the reason", () => {
+  const scheduler = new Scheduler(
+    config({ backoff: { baseSeconds: 60, maxMinutes: 3, reasons: { portal_down: { baseSeconds: 10, maxMinutes: 1 } } } }),
+  );
+
+  scheduler.recordFailure();
+  assert.equal(scheduler.nextRun(at(12)).delayMs, MINUTE);
+  scheduler.recordFailure();
+  assert.equal(scheduler.nextRun(at(12)).delayMs, 2 * MINUTE);
+  scheduler.recordFailure();
+  assert.equal(scheduler.nextRun(at(12)).delayMs, 3 * MINUTE);
+
+  // Configured per reason, overriding the built-in pace
+  scheduler.recordFailure("portal_down");
+  assert.deepEqual(scheduler.nextRun(at(12)), {
+    at: at(12, 1),
+    delayMs: MINUTE,
+    reason: "backoff after 4 failure(s), last: portal down",
+  });
+
+  // Built in: a rejected password waits half an hour
+  const locked = new Scheduler(config());
+  locked.recordFailure("wrong_credentials");
+  assert.equal(locked.nextRun(at(12)).delayMs, 30 * MINUTE);
+
+  scheduler.recordSuccess(false, at(12));
+  assert.equal(scheduler.nextRun(at(12)).reason, "default interval");
+});
+
+test("a change switches to the burst cadence for a while, and survives a restart", () => {
+  const scheduler = new Scheduler(
+    config({
+      burst: { intervalMinutes: 1, durationMinutes: 30 },
+      windows: [{ name: "overnight", intervalMinutes: 5, from: "22:00", to: "02:00" }],
+    }),
+  );
+  scheduler.recordSuccess(true, at(23, 50));
+
+  assert.equal(scheduler.nextRun(at(23, 51)).delayMs, MINUTE);
+  assert.match(scheduler.nextRun(at(0, 19, 20)).reason, /^burst until/);
+  assert.equal(scheduler.nextRun(at(0, 20, 20)).reason, 'window "overnight"');
+
+  const restarted = new Scheduler(config(), scheduler.toState(null));
+  assert.equal(restarted.nextRun(at(0, 10, 20)).delayMs, MINUTE);
+
+  // Failures win over a burst
+  restarted.recordFailure();
+  assert.match(restarted.nextRun(at(0, 10, 20)).reason, /^backoff/);
+});
+
+test("alerts once per reason in a failure streak, wherever the reason shows up", () => {
+  const scheduler = new Scheduler(config());
+  scheduler.recordFailure("portal_down");
+  scheduler.recordFailure("wrong_credentials");
+  assert.equal(scheduler.shouldAlert("wrong_credentials"), true);
+
+  // Still remembered after a restart
+  const restarted = new Scheduler(config(), scheduler.toState(null));
+  restarted.recordFailure("wrong_captcha");
+  restarted.recordFailure("wrong_credentials");
+  assert.equal(restarted.shouldAlert("wrong_credentials"), false);
+  assert.equal(restarted.shouldAlert("account_locked"), true);
+
+  // A success ends the streak
+  restarted.recordSuccess(false);
+  assert.equal(restarted.shouldAlert("account_locked"), true);
+});
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { HTMLElement, parse } from "node-html-parser";
+import type { Page } from "@browserbasehq/stagehand";
+import { decrypt, encrypt, fillCredentials, runVaultCommand } from "../vault.js";
+
+const contents = { alice: { username: "22103001", password: "hunter2", updatedAt: "2026-10-19T08:00:00.000Z" } };
+
+test("the vault round-trips under its passphrase and rejects any other", async () => {
+  const file = await encrypt(contents, "correct horse");
+  assert.doesNotMatch(JSON.stringify(file), /hunter2/);
+  assert.deepEqual(await decrypt(file, "correct horse"), contents);
+  await assert.rejects(decrypt(file, "battery staple"), /wrong passphrase/);
+
+  // Fresh salt and IV every time
+  const again = await encrypt(contents, "correct horse");
+  assert.notEqual(again.kdf.salt, file.kdf.salt);
+  assert.notEqual(again.iv, file.iv);
+});
+
+test("rekey --keyfile re-encrypts the vault under a new key saved with owner-only access", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pec-vault-"));
+  const saved = { ...process.env };
+  const vaultFile = path.join(dir, "vault.json");
+  const keyFile = path.join(dir, "keys", "vault.key");
+  Object.assign(process.env, { VAULT_FILE: vaultFile, VAULT_KEY_FILE: keyFile, VAULT_PASSPHRASE: "old passphrase" });
+  try {
+    fs.writeFileSync(vaultFile, JSON.stringify(await encrypt(contents, "old passphrase")));
+
+    // The passphrase in the env would keep overriding the new key file
+    await assert.rejects(runVaultCommand(["rekey", "--keyfile"]), /Unset VAULT_PASSPHRASE/);
+    assert.equal(fs.existsSync(keyFile), false);
+
+    // Unlocked with the old key file instead, which is then replaced
+    delete process.env.VAULT_PASSPHRASE;
+    fs.mkdirSync(path.dirname(keyFile));
+    fs.writeFileSync(keyFile, "old passphrase\n");
+    await runVaultCommand(["rekey", "--keyfile"]);
+
+    const key = fs.readFileSync(keyFile, "utf-8").trim();
+    assert.equal(fs.statSync(keyFile).mode & 0o777, 0o600);
+    assert.deepEqual(fs.readdirSync(path.dirname(keyFile)), ["vault.key"]);
+
+    assert.equal(fs.statSync(vaultFile).mode & 0o777, 0o600);
+    const vault = JSON.parse(fs.readFileSync(vaultFile, "utf-8"));
+    assert.deepEqual(await decrypt(vault, key), contents);
+    await assert.rejects(decrypt(vault, "old passphrase"), /wrong passphrase/);
+  } finally {
+    process.env = saved;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("credentials go into the text fields, never a login button", async () => {
+  // The submit button comes first and its id matches *login* too
+  const form = parse(`<form>
+    <input type="submit" id="btnLogin" value="Log in">
+    <input type="hidden" name="loginToken" value="abc">
+    <input type="text" id="txtUserName">
+    <input type="password" id="txtPassword">
+  </form>`);
+  const filled = new Map<string, string>();
+  const locate = (elements: HTMLElement[]) => ({
+    count: async () => elements.length,
+    first: () => ({ fill: async (value: string) => void filled.set(elements[0].id, value) }),
+  });
+  const page = { locator: (selector: string) => locate(form.querySelectorAll(selector.replace(/:visible/g, ""))) };
+
+  await fillCredentials(page as unknown as Page, { username: "22103001", password: "hunter2" });
+  assert.deepEqual(Object.fromEntries(filled), { txtUserName: "22103001", txtPassword: "hunter2" });
+});
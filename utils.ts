@@ -1,15 +1,17 @@
 import { ObserveResult, Page } from "@browserbasehq/stagehand";
 import boxen from "boxen";
-import chalk from "chalk";
 import fs from "fs/promises";
+import path from "path";
+import { AsyncLocalStorage } from "async_hooks";
 import { z } from "zod";
 
 export function announce(message: string, title?: string) {
+  const label = scopeStorage.getStore()?.label;
   console.log(
     boxen(message, {
       padding: 1,
       margin: 3,
-      title: title || "Stagehand",
+      title: label ? `${title || "Stagehand"} · ${label}` : title || "Stagehand",
     }),
   );
 }
@@ -27,6 +29,114 @@ export function getEnvVar(name: string, required = true): string | undefined {
   return value;
 }
 
+/**
+ * Per-account context: where its data lives and how its console output is
+ * labelled
+ */
+export type Scope = {
+  dataDir: string;
+  label?: string;
+};
+
+const scopeStorage = new AsyncLocalStorage<Scope>();
+
+/**
+ * Run a function in its own scope, so everything it persists (snapshots,
+ * history, session...) is kept apart and its announcements are labelled
+ * @param scope - The data directory and label to use
+ * @param fn - The function to run
+ */
+export function runInScope<T>(scope: Scope, fn: () => T): T {
+  return scopeStorage.run(scope, fn);
+}
+
+/**
+ * The current scope's label: the account id when several are monitored
+ */
+export function getScopeLabel(): string | undefined {
+  return scopeStorage.getStore()?.label;
+}
+
+/**
+ * Resolve a path inside the monitor's data directory (set by runInScope,
+ * else DATA_DIR, default: ./data), creating the directory if needed
+ * @param name - The file name inside the data directory
+ * @returns The full path to the file
+ */
+export async function getDataPath(name: string): Promise<string> {
+  const dir = scopeStorage.getStore()?.dataDir || process.env.DATA_DIR || "data";
+  await fs.mkdir(dir, { recursive: true });
+  return path.join(dir, name);
+}
+
+/**
+ * Write a file by writing a temp file next to it and renaming it into place,
+ * so a crash mid-write never leaves a truncated file behind
+ * @param file - The file to write
+ * @param contents - The contents to write
+ * @param mode - Permissions for the file, set on the temp file before anything is written to it
+ */
+export async function writeFileAtomic(file: string, contents: string, mode?: number) {
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  if (mode === undefined) {
+    await fs.writeFile(tmpFile, contents);
+  } else {
+    // `mode` only applies when the file is created, so a leftover temp file is reset first
+    await fs.rm(tmpFile, { force: true });
+    await fs.writeFile(tmpFile, contents, { mode, flag: "wx" });
+  }
+  await fs.rename(tmpFile, file);
+}
+
+/**
+ * Format a duration like "2h 5m" or "45s"
+ * @param ms - The duration in milliseconds
+ * @returns A short human-readable duration
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days) return `${days}d ${hours}h`;
+  if (hours) return `${hours}h ${minutes}m`;
+  if (minutes) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * Limit how many tasks hold a slot at once
+ * @param concurrency - The number of slots
+ * @returns A function that waits for a free slot and resolves to the function
+ * that gives it back
+ */
+export function createLimiter(concurrency: number) {
+  let taken = 0;
+  const waiting: (() => void)[] = [];
+
+  return async function acquire(): Promise<() => void> {
+    if (taken < concurrency) {
+      taken++;
+    } else {
+      // The releasing task hands its slot straight to us
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = waiting.shift();
+      if (next) next();
+      else taken--;
+    };
+  };
+}
+
+export type Limiter = ReturnType<typeof createLimiter>;
+
 /**
  * Validate a Zod schema against some data
  * @param schema - The Zod schema to validate against
@@ -96,76 +206,3 @@ export async function clearOverlays(page: Page) {
     });
   });
 }
-
-export async function simpleCache(
-  instruction: string,
-  actionToCache: ObserveResult,
-) {
-  // Save action to cache.json
-  try {
-    // Read existing cache if it exists
-    let cache: Record<string, ObserveResult> = {};
-    try {
-      const existingCache = await fs.readFile("cache.json", "utf-8");
-      cache = JSON.parse(existingCache);
-    } catch (error) {
-      // File doesn't exist yet, use empty cache
-    }
-
-    // Add new action to cache
-    cache[instruction] = actionToCache;
-
-    // Write updated cache to file
-    await fs.writeFile("cache.json", JSON.stringify(cache, null, 2));
-  } catch (error) {
-    console.error(chalk.red("Failed to save to cache:"), error);
-  }
-}
-
-export async function readCache(
-  instruction: string,
-): Promise<ObserveResult | null> {
-  try {
-    const existingCache = await fs.readFile("cache.json", "utf-8");
-    const cache: Record<string, ObserveResult> = JSON.parse(existingCache);
-    return cache[instruction] || null;
-  } catch (error) {
-    return null;
-  }
-}
-
-/**
- * This function is used to act with a cacheable action.
- * It will first try to get the action from the cache.
- * If not in cache, it will observe the page and cache the result.
- * Then it will execute the action.
- * @param instruction - The instruction to act with.
- */
-export async function actWithCache(
-  page: Page,
-  instruction: string,
-): Promise<void> {
-  // Try to get action from cache first
-  const cachedAction = await readCache(instruction);
-  if (cachedAction) {
-    console.log(chalk.blue("Using cached action for:"), instruction);
-    await page.act(cachedAction);
-    return;
-  }
-
-  // If not in cache, observe the page and cache the result
-  const results = await page.observe(instruction);
-  console.log(chalk.blue("Got results:"), results);
-
-  // Cache the playwright action
-  const actionToCache = results[0];
-  console.log(chalk.blue("Taking cacheable action:"), actionToCache);
-  await simpleCache(instruction, actionToCache);
-  // OPTIONAL: Draw an overlay over the relevant xpaths
-  await drawObserveOverlay(page, results);
-  await page.waitForTimeout(1000); // Can delete this line, just a pause to see the overlay
-  await clearOverlays(page);
-
-  // Execute the action
-  await page.act(actionToCache);
-}
@@ -0,0 +1,359 @@
+import { Page } from "@browserbasehq/stagehand";
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import readline from "readline";
+import chalk from "chalk";
+import { z } from "zod";
+import { isDaemonMode } from "./daemon.js";
+import { announce, writeFileAtomic } from "./utils.js";
+
+export type Credentials = {
+  username: string;
+  password: string;
+};
+
+type VaultEntry = Credentials & { updatedAt: string };
+
+type VaultContents = Record<string, VaultEntry>;
+
+// What's on disk: the entries encrypted with AES-256-GCM under a key derived
+// from the master passphrase with scrypt
+const vaultFileSchema = z.object({
+  version: z.literal(1),
+  kdf: z.object({ salt: z.string(), N: z.number(), r: z.number(), p: z.number() }),
+  iv: z.string(),
+  tag: z.string(),
+  data: z.string(),
+});
+
+type VaultFile = z.infer<typeof vaultFileSchema>;
+
+const KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+function getVaultPath() {
+  return process.env.VAULT_FILE || path.join(process.env.DATA_DIR || "data", "vault.json");
+}
+
+function getKeyFilePath() {
+  return process.env.VAULT_KEY_FILE || path.join(os.homedir(), ".pec-monitor", "vault.key");
+}
+
+function deriveKey(passphrase: string, kdf: VaultFile["kdf"]): Promise<Buffer> {
+  const salt = Buffer.from(kdf.salt, "base64");
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, 32, { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 64 * 1024 * 1024 }, (error, key) =>
+      error ? reject(error) : resolve(key),
+    );
+  });
+}
+
+/**
+ * Encrypt the vault entries under a key derived from the passphrase, with a
+ * fresh salt and IV every time
+ */
+export async function encrypt(contents: VaultContents, passphrase: string): Promise<VaultFile> {
+  const kdf = { salt: randomBytes(16).toString("base64"), ...KDF_PARAMS };
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", await deriveKey(passphrase, kdf), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(contents), "utf-8"), cipher.final()]);
+  return {
+    version: 1,
+    kdf,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * Decrypt the vault entries
+ * @throws If the passphrase is wrong or the file was tampered with
+ */
+export async function decrypt(file: VaultFile, passphrase: string): Promise<VaultContents> {
+  const decipher = createDecipheriv("aes-256-gcm", await deriveKey(passphrase, file.kdf), Buffer.from(file.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+  try {
+    const data = Buffer.concat([decipher.update(Buffer.from(file.data, "base64")), decipher.final()]);
+    return JSON.parse(data.toString("utf-8"));
+  } catch {
+    throw new Error("Couldn't unlock the credential vault: wrong passphrase or a corrupted vault file");
+  }
+}
+
+async function readVaultFile(): Promise<VaultFile | null> {
+  const file = getVaultPath();
+  try {
+    return vaultFileSchema.parse(JSON.parse(await fs.readFile(file, "utf-8")));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return null;
+    throw new Error(`Failed to read the credential vault from ${file}: ${error.message}`);
+  }
+}
+
+async function writeVaultFile(contents: VaultContents, passphrase: string) {
+  const file = getVaultPath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Owner-only from the moment the temp file exists, not just after the rename
+  await writeFileAtomic(file, JSON.stringify(await encrypt(contents, passphrase), null, 2), 0o600);
+}
+
+/**
+ * Re-encrypt the vault under a random key and save that key to the key file.
+ * The new key is staged next to the key file and only renamed into place once
+ * the vault is re-encrypted, so a failure halfway never leaves the vault
+ * locked with a key that wasn't saved, or the key file out of step with it.
+ */
+async function rekeyWithKeyFile(contents: VaultContents) {
+  const keyFile = getKeyFilePath();
+  const tmpKeyFile = `${keyFile}.${process.pid}.tmp`;
+  const passphrase = randomBytes(32).toString("base64");
+
+  await fs.mkdir(path.dirname(keyFile), { recursive: true });
+  // `mode` only applies when the file is created, so a leftover temp file is removed first
+  await fs.rm(tmpKeyFile, { force: true });
+  await fs.writeFile(tmpKeyFile, passphrase + "\n", { mode: 0o600, flag: "wx" });
+  try {
+    await writeVaultFile(contents, passphrase);
+  } catch (error) {
+    await fs.rm(tmpKeyFile, { force: true });
+    throw error;
+  }
+  await fs.rename(tmpKeyFile, keyFile);
+}
+
+/**
+ * Ask for a secret on the terminal without echoing it
+ * @param question - The prompt to show
+ * @returns What was typed
+ */
+export function promptHidden(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error("Can't prompt for a secret without a terminal"));
+  }
+
+  return new Promise((resolve, reject) => {
+    let value = "";
+    const done = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write("\n");
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n") {
+          done();
+          resolve(value);
+          return;
+        }
+        if (char === "\u0003") {
+          done();
+          reject(new Error("Cancelled"));
+          return;
+        }
+        value = char === "\u007f" || char === "\b" ? value.slice(0, -1) : value + char;
+      }
+    };
+
+    process.stdout.write(question);
+    stdin.setRawMode(true);
+    stdin.setEncoding("utf-8");
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+}
+
+function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise((resolve) =>
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    }),
+  );
+}
+
+async function promptNewSecret(what: string): Promise<string> {
+  const secret = await promptHidden(`New ${what}: `);
+  if (!secret) throw new Error(`The ${what} can't be empty`);
+  if ((await promptHidden(`Repeat the ${what}: `)) !== secret) {
+    throw new Error(`The ${what}s don't match`);
+  }
+  return secret;
+}
+
+/**
+ * Find the master passphrase: VAULT_PASSPHRASE, else the key file
+ * (VAULT_KEY_FILE, default: ~/.pec-monitor/vault.key), else ask on the
+ * terminal. Daemons never prompt.
+ * @param creating - Whether a new vault is being created (asks twice)
+ */
+async function getPassphrase(creating = false): Promise<string> {
+  if (process.env.VAULT_PASSPHRASE) return process.env.VAULT_PASSPHRASE;
+
+  try {
+    return (await fs.readFile(getKeyFilePath(), "utf-8")).trim();
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw new Error(`Failed to read the vault key file ${getKeyFilePath()}: ${error.message}`);
+    }
+  }
+
+  if (isDaemonMode()) {
+    throw new Error("The credential vault is locked: set VAULT_PASSPHRASE or create a key file with `pnpm vault rekey --keyfile`");
+  }
+  return creating ? promptNewSecret("vault passphrase") : promptHidden("Vault passphrase: ");
+}
+
+async function openVault(): Promise<{ contents: VaultContents; passphrase: string }> {
+  const file = await readVaultFile();
+  if (!file) {
+    return { contents: {}, passphrase: await getPassphrase(true) };
+  }
+  const passphrase = await getPassphrase();
+  return { contents: await decrypt(file, passphrase), passphrase };
+}
+
+// Unlocked once per run and shared by every account
+let unlocked: Promise<VaultContents | null> | null = null;
+
+/**
+ * Look up an account's credentials. Plaintext credentials from the account
+ * config (or USERNAME/PASSWORD) still win so existing setups keep working;
+ * otherwise they come from the encrypted vault, under the account id.
+ * @param account - The account id and any plaintext credentials it has
+ * @returns The username and password to log in with
+ */
+export async function getCredentials(account: { id: string; username?: string; password?: string }): Promise<Credentials> {
+  if (account.username && account.password) {
+    return { username: account.username, password: account.password };
+  }
+
+  unlocked ??= readVaultFile().then(async (file) => (file ? decrypt(file, await getPassphrase()) : null));
+  const entry = (await unlocked)?.[account.id];
+  if (!entry) {
+    throw new Error(`No credentials for account "${account.id}": add them with \`pnpm vault add ${account.id}\``);
+  }
+  return { username: account.username || entry.username, password: entry.password };
+}
+
+/**
+ * Find a login form field without the LLM ever seeing what goes into it:
+ * well-known attributes first, then `observe` (the instruction names the
+ * field, never its value)
+ */
+async function locateField(page: Page, field: "username" | "password") {
+  const candidates =
+    field === "password"
+      ? page.locator('input[type="password"]:visible')
+      : page.locator(
+          // Not the "btnLogin" submit button, which matches *login* too
+          'input:visible:is([name*="user" i], [id*="user" i], [name*="login" i], [id*="login" i], [autocomplete="username"])' +
+            ':not([type="submit"]):not([type="button"]):not([type="hidden"]):not([type="password"])',
+        );
+  if ((await candidates.count()) > 0) return candidates.first();
+
+  const [result] = await page.observe(`Find the ${field} input field of the login form`);
+  if (!result) throw new Error(`Couldn't find the ${field} field on the login page`);
+  return page.locator(result.selector);
+}
+
+/**
+ * Fill the login form's username and password with Playwright directly, so
+ * the credentials never end up in an LLM prompt or the Stagehand logs
+ */
+export async function fillCredentials(page: Page, credentials: Credentials) {
+  await (await locateField(page, "username")).fill(credentials.username);
+  await (await locateField(page, "password")).fill(credentials.password);
+}
+
+const VAULT_USAGE =
+  `Usage: pnpm vault <command>\n\n` +
+  `  add <ACCOUNT>       Store the username and password for an account ("default" without accounts.json)\n` +
+  `  rotate <ACCOUNT>    Replace an account's password\n` +
+  `  remove <ACCOUNT>    Delete an account's credentials\n` +
+  `  list                Show the stored accounts (never the passwords)\n` +
+  `  rekey [--keyfile]   Change the master passphrase, or switch to a random one in VAULT_KEY_FILE`;
+
+/**
+ * Entry point for `pnpm vault ...`
+ * @param args - The CLI arguments after "vault"
+ */
+export async function runVaultCommand(args: string[]) {
+  const [command, id] = args;
+
+  switch (command) {
+    case "add":
+    case "rotate": {
+      if (!id) break;
+      const { contents, passphrase } = await openVault();
+      const existing = contents[id];
+      if (command === "add" && existing) {
+        throw new Error(`Account "${id}" is already in the vault, use \`pnpm vault rotate ${id}\` to change its password`);
+      }
+      if (command === "rotate" && !existing) {
+        throw new Error(`Account "${id}" isn't in the vault, use \`pnpm vault add ${id}\` first`);
+      }
+
+      const username = existing?.username ?? (await prompt("AIS username: "));
+      if (!username) throw new Error("The username can't be empty");
+      contents[id] = { username, password: await promptNewSecret("AIS password"), updatedAt: new Date().toISOString() };
+      await writeVaultFile(contents, passphrase);
+      announce(`${command === "add" ? "Stored" : "Rotated"} the credentials for ${chalk.bold(id)}`, "Credential Vault");
+      return;
+    }
+
+    case "remove": {
+      if (!id) break;
+      const { contents, passphrase } = await openVault();
+      if (!contents[id]) throw new Error(`Account "${id}" isn't in the vault`);
+      delete contents[id];
+      await writeVaultFile(contents, passphrase);
+      announce(`Removed the credentials for ${chalk.bold(id)}`, "Credential Vault");
+      return;
+    }
+
+    case "list": {
+      const { contents } = await openVault();
+      const entries = Object.entries(contents);
+      announce(
+        entries.length
+          ? entries
+              .map(([account, entry]) => `${chalk.bold(account)}: ${entry.username} (updated ${new Date(entry.updatedAt).toLocaleString()})`)
+              .join("\n")
+          : "The vault is empty",
+        "Credential Vault",
+      );
+      return;
+    }
+
+    case "rekey": {
+      // VAULT_PASSPHRASE wins over the key file, so the new key would never be used
+      if (args.includes("--keyfile") && process.env.VAULT_PASSPHRASE) {
+        throw new Error("Unset VAULT_PASSPHRASE before `pnpm vault rekey --keyfile`, or it keeps overriding the key file");
+      }
+      const { contents } = await openVault();
+      if (args.includes("--keyfile")) {
+        await rekeyWithKeyFile(contents);
+        announce(`Re-encrypted the vault with a random key saved to ${chalk.cyan(getKeyFilePath())}`, "Credential Vault");
+        return;
+      }
+
+      await writeVaultFile(contents, await promptNewSecret("vault passphrase"));
+      // The old key file would otherwise be tried first and fail to unlock the vault
+      await fs.rm(getKeyFilePath(), { force: true });
+      announce(
+        "Re-encrypted the vault with the new passphrase" +
+          (process.env.VAULT_PASSPHRASE ? `\n${chalk.yellow("Update VAULT_PASSPHRASE to the new passphrase")}` : ""),
+        "Credential Vault",
+      );
+      return;
+    }
+  }
+
+  console.log(VAULT_USAGE);
+  process.exitCode = 1;
+}
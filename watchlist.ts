@@ -0,0 +1,133 @@
+import { Page } from "@browserbasehq/stagehand";
+import fs from "fs/promises";
+import { z } from "zod";
+import { scrapeCourses } from "./courses.js";
+import type { CheckboxState, CourseRow } from "./courses.js";
+
+export const PRIORITY_LEVELS = ["high", "medium", "low"] as const;
+
+export const watchedCourseSchema = z.object({
+  courseCode: z.string().regex(/^[A-Z]{2}\d{4}$/, "Course codes look like CS6701"),
+  priority: z.enum(PRIORITY_LEVELS).default("medium"),
+  // Optional constraints: the row's section / slot column must match exactly
+  section: z.string().optional(),
+  slot: z.string().optional(),
+  // Set to false to keep auto-enroll (AUTO_ENROLL=true) away from this course
+  autoEnroll: z.boolean().optional(),
+});
+
+export const watchlistSchema = z.array(watchedCourseSchema);
+
+export type WatchedCourse = z.infer<typeof watchedCourseSchema>;
+export type Priority = (typeof PRIORITY_LEVELS)[number];
+
+export type WatchedCourseStatus = WatchedCourse & {
+  courseName: string;
+  isVisible: boolean;
+  isSelectable: boolean;
+  checkboxState: CheckboxState;
+  onclick: string;
+};
+
+/**
+ * Parse the compact env format: "CS6701:high,MM6006,HS6001:low"
+ * @param value - The raw WATCHLIST env value
+ * @returns The parsed (unvalidated) watchlist entries
+ */
+function parseWatchlistEnv(value: string) {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [courseCode, priority] = entry.split(":").map((part) => part.trim());
+      return { courseCode: courseCode.toUpperCase(), priority: priority || undefined };
+    });
+}
+
+/**
+ * Load the watchlist from the WATCHLIST env var, falling back to the JSON file
+ * named by WATCHLIST_FILE (default: watchlist.json). A missing file yields an
+ * empty watchlist, so the monitor still reports every course on the page.
+ * @returns The watchlist sorted by priority (high first)
+ */
+export async function loadWatchlist(): Promise<WatchedCourse[]> {
+  let raw: unknown = [];
+
+  if (process.env.WATCHLIST) {
+    raw = parseWatchlistEnv(process.env.WATCHLIST);
+  } else {
+    const file = process.env.WATCHLIST_FILE || "watchlist.json";
+    try {
+      raw = JSON.parse(await fs.readFile(file, "utf-8"));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw new Error(`Failed to read watchlist from ${file}: ${error.message}`);
+      }
+    }
+  }
+
+  return sortWatchlist(watchlistSchema.parse(raw));
+}
+
+export function sortWatchlist(watchlist: WatchedCourse[]): WatchedCourse[] {
+  return [...watchlist].sort(
+    (a, b) => PRIORITY_LEVELS.indexOf(a.priority) - PRIORITY_LEVELS.indexOf(b.priority),
+  );
+}
+
+export function describeWatchedCourse(course: WatchedCourse) {
+  const constraints = [
+    course.section && `section ${course.section}`,
+    course.slot && `slot ${course.slot}`,
+  ].filter(Boolean);
+  return constraints.length
+    ? `${course.courseCode} (${constraints.join(", ")})`
+    : course.courseCode;
+}
+
+/**
+ * Find each watched course among the parsed Add/Drop rows. Section and slot
+ * constraints must match the row's section / slot column exactly.
+ * @param courses - The parsed Add/Drop table
+ * @param watchlist - The courses to look up
+ * @returns One status per watched course, in watchlist order
+ */
+export function matchWatchedCourses(
+  courses: CourseRow[],
+  watchlist: WatchedCourse[],
+): WatchedCourseStatus[] {
+  return watchlist.map((watched) => {
+    const row = courses.find(
+      (course) =>
+        course.courseCode === watched.courseCode &&
+        (!watched.section || course.section === watched.section) &&
+        (!watched.slot || course.slot === watched.slot),
+    );
+
+    if (!row) {
+      return { ...watched, courseName: "", isVisible: false, isSelectable: false, checkboxState: "not_found", onclick: "none" };
+    }
+    return {
+      ...watched,
+      courseName: row.courseName,
+      isVisible: true,
+      isSelectable: row.isSelectable,
+      checkboxState: row.checkboxState,
+      onclick: row.onclick,
+    };
+  });
+}
+
+/**
+ * Look up every watched course in the Add/Drop table and read its checkbox state
+ * @param page - The page showing the Add/Drop course table
+ * @param watchlist - The courses to look up
+ * @returns One status per watched course, in watchlist order
+ */
+export async function checkWatchedCourses(
+  page: Page,
+  watchlist: WatchedCourse[],
+): Promise<WatchedCourseStatus[]> {
+  return matchWatchedCourses(await scrapeCourses(page), watchlist);
+}